@@ -230,8 +230,10 @@ function RetryErrorFallback({
           fontSize: "16px",
         }}
         onClick={() => {
-          // In a real app, you might want to reset the manager here
-          // await retryManager.destroySystem();
+          // Halt the failed system and start a fresh one - hooks suspend
+          // until the new system is ready. Failures are reflected in the
+          // manager state
+          retryManager.restartSystem().catch(() => {});
           resetErrorBoundary();
         }}
       >
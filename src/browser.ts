@@ -0,0 +1,169 @@
+/**
+ * Browser Lifecycle - Tie the system to the page lifecycle
+ *
+ * Nothing halts the system when the tab is closed, so resources never get
+ * to flush. This opt-in integration halts (or flushes) on unload, pauses
+ * and resumes on visibility changes, and restarts after a bfcache restore.
+ */
+
+import type { SystemConfig, StartedSystem } from "braided";
+import type { SystemManager } from "./manager";
+
+/**
+ * Options for bindBrowserLifecycle().
+ */
+export type BrowserLifecycleOptions<TConfig extends SystemConfig> = {
+  /**
+   * What to do on `pagehide`:
+   * - halt (default): destroySystem(), after calling `flush` if given
+   * - flush: only call `flush`, keeping the system running
+   */
+  unload?: "halt" | "flush";
+  /**
+   * Called synchronously with the running system on `beforeunload` and
+   * `pagehide` (once when both fire for the same navigation). Keep it short
+   * and synchronous (sendBeacon, localStorage) - the page may be gone before
+   * promises settle.
+   */
+  flush?: (system: StartedSystem<TConfig>) => void;
+  /** Called with the running system when the tab becomes hidden */
+  pause?: (system: StartedSystem<TConfig>) => void;
+  /** Called with the running system when the tab becomes visible again after pause */
+  resume?: (system: StartedSystem<TConfig>) => void;
+  /**
+   * Start the system again when a page halted on unload is restored from
+   * the back/forward cache (default: true).
+   */
+  restartOnRestore?: boolean;
+  /** Window to listen on (default: the global window) */
+  window?: Window;
+};
+
+/**
+ * Bind a manager to the browser page lifecycle.
+ *
+ * - `beforeunload`: flush the system
+ * - `pagehide`: halt the system (or only flush it)
+ * - `visibilitychange`: call `pause` when hidden, `resume` when visible again
+ * - `pageshow` with `persisted`: restart a system halted on unload
+ *
+ * `beforeunload` can be cancelled by other handlers, so it never halts -
+ * the page may keep running.
+ *
+ * @param manager - The system manager
+ * @param options - Unload behaviour and pause/resume/flush callbacks
+ * @returns Function removing the listeners
+ *
+ * @example
+ * ```typescript
+ * // system.ts
+ * export const manager = createSystemManager(config)
+ *
+ * bindBrowserLifecycle(manager, {
+ *   flush: (system) => system.analytics.flushWithBeacon(),
+ *   pause: (system) => system.poller.stop(),
+ *   resume: (system) => system.poller.start(),
+ * })
+ * ```
+ */
+export function bindBrowserLifecycle<TConfig extends SystemConfig>(
+  manager: SystemManager<TConfig, any>,
+  options: BrowserLifecycleOptions<TConfig> = {}
+): () => void {
+  const {
+    unload = "halt",
+    flush,
+    pause,
+    resume,
+    restartOnRestore = true,
+    window: target = window,
+  } = options;
+
+  // Set by beforeunload so the pagehide that follows doesn't flush again.
+  // Cleared on the next task in case the navigation was cancelled.
+  let flushedBeforeUnload = false;
+  let flushedTimer: ReturnType<typeof setTimeout> | undefined;
+  let haltedOnUnload = false;
+  let paused = false;
+
+  function flushSystem() {
+    const system = manager.getCurrentSystem();
+    if (system) {
+      flush?.(system);
+    }
+  }
+
+  function handleBeforeUnload() {
+    flushSystem();
+    flushedBeforeUnload = true;
+    clearTimeout(flushedTimer);
+    flushedTimer = setTimeout(() => {
+      flushedBeforeUnload = false;
+    });
+  }
+
+  function handlePageHide() {
+    if (flushedBeforeUnload) {
+      flushedBeforeUnload = false;
+      clearTimeout(flushedTimer);
+    } else {
+      flushSystem();
+    }
+
+    const { status } = manager.getState();
+    if (
+      unload === "halt" &&
+      status !== "idle" &&
+      status !== "halting" &&
+      status !== "halted"
+    ) {
+      haltedOnUnload = true;
+      // Halt errors are reported by the manager's plugins
+      manager.destroySystem().catch(() => {});
+    }
+  }
+
+  function handlePageShow(event: PageTransitionEvent) {
+    if (!event.persisted) {
+      return;
+    }
+
+    if (haltedOnUnload && restartOnRestore) {
+      haltedOnUnload = false;
+      // Failures are reflected in the manager state
+      manager.getSystem().catch(() => {});
+    }
+  }
+
+  function handleVisibilityChange() {
+    const system = manager.getCurrentSystem();
+
+    if (target.document.visibilityState === "hidden") {
+      if (system && !paused) {
+        paused = true;
+        pause?.(system);
+      }
+    } else if (paused) {
+      paused = false;
+      if (system) {
+        resume?.(system);
+      }
+    }
+  }
+
+  target.addEventListener("pagehide", handlePageHide);
+  target.addEventListener("beforeunload", handleBeforeUnload);
+  target.addEventListener("pageshow", handlePageShow);
+  target.document.addEventListener("visibilitychange", handleVisibilityChange);
+
+  return () => {
+    clearTimeout(flushedTimer);
+    target.removeEventListener("pagehide", handlePageHide);
+    target.removeEventListener("beforeunload", handleBeforeUnload);
+    target.removeEventListener("pageshow", handlePageShow);
+    target.document.removeEventListener(
+      "visibilitychange",
+      handleVisibilityChange
+    );
+  };
+}
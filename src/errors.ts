@@ -0,0 +1,151 @@
+/**
+ * Error types for braided-react
+ *
+ * Typed errors surfaced by the manager, so ErrorBoundary fallbacks can
+ * branch on the failure kind instead of parsing messages.
+ */
+
+/**
+ * Thrown when system startup takes longer than `startTimeoutMs`.
+ *
+ * Resources that already started when the timeout fired are halted
+ * (best effort) in the background.
+ */
+export class SystemStartTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`System startup timed out after ${timeoutMs}ms`);
+    this.name = "SystemStartTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Type guard for SystemStartTimeoutError.
+ *
+ * @param error - Any thrown value
+ * @returns true if the value is a SystemStartTimeoutError
+ */
+export function isSystemStartTimeoutError(
+  error: unknown
+): error is SystemStartTimeoutError {
+  return error instanceof SystemStartTimeoutError;
+}
+
+/**
+ * Braided's error message for resources skipped because a required
+ * dependency is unavailable.
+ */
+const MISSING_DEPENDENCIES_PREFIX = "Missing required dependencies";
+
+/**
+ * Check whether a startup error means the resource was skipped because a
+ * required dependency failed (rather than its own start() throwing).
+ *
+ * @param error - A per-resource startup error
+ * @returns true if the resource was skipped
+ */
+export function isSkippedResourceError(error: Error): boolean {
+  return error.message.startsWith(MISSING_DEPENDENCIES_PREFIX);
+}
+
+/**
+ * List errors as "id: message, id: message".
+ */
+function formatErrors(errors: Map<string, Error>): string {
+  return Array.from(errors.entries())
+    .map(([id, err]) => `${id}: ${err.message}`)
+    .join(", ");
+}
+
+/**
+ * Thrown by useSystem() when critical resources failed to start.
+ *
+ * Keeps the original error objects, so ErrorBoundary fallbacks can tell
+ * which resources failed (and which were skipped because of them) without
+ * parsing the message.
+ *
+ * @example
+ * ```typescript
+ * function ErrorFallback({ error }: FallbackProps) {
+ *   if (isSystemStartupError(error)) {
+ *     return <p>Could not start: {error.failedResources.join(", ")}</p>
+ *   }
+ *   return <p>{error.message}</p>
+ * }
+ * ```
+ */
+export class SystemStartupError extends Error {
+  /** Startup errors by resource ID */
+  readonly errors: Map<string, Error>;
+  /** Resources whose start() threw */
+  readonly failedResources: string[];
+  /** Resources skipped because a required dependency failed */
+  readonly skippedResources: string[];
+  /** Error of the first failed resource */
+  readonly cause: Error | undefined;
+
+  constructor(errors: Map<string, Error>) {
+    super(`System startup failed: ${formatErrors(errors)}`);
+    this.name = "SystemStartupError";
+    this.errors = errors;
+
+    this.failedResources = [];
+    this.skippedResources = [];
+    for (const [id, error] of errors) {
+      if (isSkippedResourceError(error)) {
+        this.skippedResources.push(id);
+      } else {
+        this.failedResources.push(id);
+      }
+    }
+
+    const [firstFailed] = this.failedResources;
+    this.cause = errors.get(firstFailed ?? this.skippedResources[0]);
+  }
+}
+
+/**
+ * Type guard for SystemStartupError.
+ *
+ * @param error - Any thrown value
+ * @returns true if the value is a SystemStartupError
+ */
+export function isSystemStartupError(
+  error: unknown
+): error is SystemStartupError {
+  return error instanceof SystemStartupError;
+}
+
+/**
+ * Resources failed to halt.
+ *
+ * Carries the original halt errors by resource ID.
+ */
+export class SystemHaltError extends Error {
+  /** Halt errors by resource ID */
+  readonly errors: Map<string, Error>;
+  /** Resources whose halt() threw */
+  readonly failedResources: string[];
+  /** Error of the first failed resource */
+  readonly cause: Error | undefined;
+
+  constructor(errors: Map<string, Error>) {
+    super(`System shutdown failed: ${formatErrors(errors)}`);
+    this.name = "SystemHaltError";
+    this.errors = errors;
+    this.failedResources = Array.from(errors.keys());
+    this.cause = errors.values().next().value;
+  }
+}
+
+/**
+ * Type guard for SystemHaltError.
+ *
+ * @param error - Any thrown value
+ * @returns true if the value is a SystemHaltError
+ */
+export function isSystemHaltError(error: unknown): error is SystemHaltError {
+  return error instanceof SystemHaltError;
+}
@@ -0,0 +1,195 @@
+/**
+ * System Family - One managed system per key
+ *
+ * For apps that need a system per entity (chat room, tenant, document).
+ * Each key gets its own manager, created lazily from a config factory,
+ * with optional LRU eviction that halts least-recently-used systems.
+ */
+
+import type { SystemConfig } from "braided";
+import { createSystemManager } from "./manager";
+import type { SystemManager, SystemManagerOptions } from "./manager";
+
+/**
+ * Options for createSystemFamily().
+ */
+export type SystemFamilyOptions<
+  TConfig extends SystemConfig = SystemConfig,
+  TOptional extends keyof TConfig & string = keyof TConfig & string,
+> = Omit<SystemManagerOptions<TConfig, TOptional>, "hot" | "hotKey"> & {
+  /**
+   * Maximum number of managers kept alive. When exceeded, the
+   * least-recently-used manager is removed and its system halted.
+   * Managers in use (referenced by mounted components, or starting) are
+   * never evicted, so the family may grow past it while they are.
+   * Unlimited by default.
+   */
+  maxSize?: number;
+};
+
+/**
+ * Creates a family of system managers, one per key.
+ *
+ * Managers are created lazily on first access and behave exactly like
+ * createSystemManager() - the system only starts on getSystem().
+ *
+ * @param createConfig - Builds the system config for a key
+ * @param options - Manager options applied to every member, plus `maxSize`
+ * @returns Family with get, destroy, keys, has and destroyAll methods
+ *
+ * @example
+ * ```typescript
+ * const rooms = createSystemFamily(
+ *   (roomId: string) => ({
+ *     socket: createRoomSocketResource(roomId),
+ *     messages: messagesResource,
+ *   }),
+ *   { maxSize: 5 }
+ * )
+ *
+ * const system = await rooms.get("general").getSystem()
+ * await rooms.destroy("general")
+ * ```
+ */
+export function createSystemFamily<
+  TKey extends PropertyKey,
+  TConfig extends SystemConfig,
+  TOptional extends keyof TConfig & string = never,
+>(
+  createConfig: (key: TKey) => TConfig,
+  options: SystemFamilyOptions<TConfig, TOptional> = {}
+) {
+  const { maxSize, ...managerOptions } = options;
+  // Map iteration order doubles as recency order (oldest first)
+  const managers = new Map<TKey, SystemManager<TConfig, TOptional>>();
+
+  /**
+   * Get the manager for a key, creating it if needed.
+   *
+   * Counts as a use for LRU eviction.
+   *
+   * @param key - The family key
+   * @returns The key's manager
+   */
+  function get(key: TKey): SystemManager<TConfig, TOptional> {
+    let manager = managers.get(key);
+
+    if (manager) {
+      managers.delete(key);
+      managers.set(key, manager);
+      return manager;
+    }
+
+    manager = createSystemManager<TConfig, TOptional>(
+      createConfig(key),
+      managerOptions
+    );
+    managers.set(key, manager);
+    evict(key);
+
+    return manager;
+  }
+
+  /**
+   * Check whether a manager is in use and must not be evicted.
+   *
+   * get() runs during render: evicting a mounted (or still suspended) key
+   * would make it recreate its manager and evict another one, forever.
+   */
+  function isInUse(manager: SystemManager<TConfig, TOptional>): boolean {
+    return (
+      manager.getRefCount() > 0 || manager.getState().status === "starting"
+    );
+  }
+
+  /**
+   * Remove least-recently-used managers beyond maxSize, skipping those in use.
+   *
+   * Halting is deferred so evictions triggered during a render don't
+   * notify other components synchronously.
+   *
+   * @param current - Key being accessed, never evicted
+   */
+  function evict(current: TKey) {
+    if (maxSize === undefined) {
+      return;
+    }
+
+    for (const [key, manager] of Array.from(managers)) {
+      if (managers.size <= maxSize) {
+        return;
+      }
+      if (key === current || isInUse(manager)) {
+        continue;
+      }
+
+      managers.delete(key);
+      Promise.resolve()
+        .then(() => manager.destroySystem())
+        // Halt errors are reported by the manager's plugins
+        .catch(() => {});
+    }
+  }
+
+  /**
+   * Halt a key's system and forget its manager.
+   *
+   * The next get(key) creates a fresh manager.
+   *
+   * @param key - The family key
+   * @returns Promise resolving when the system is halted
+   */
+  async function destroy(key: TKey): Promise<void> {
+    const manager = managers.get(key);
+
+    if (manager) {
+      managers.delete(key);
+      await manager.destroySystem();
+    }
+  }
+
+  /**
+   * Halt every system in the family.
+   *
+   * @returns Promise resolving when all systems are halted
+   */
+  async function destroyAll(): Promise<void> {
+    await Promise.all(Array.from(managers.keys()).map(destroy));
+  }
+
+  /**
+   * Keys with a live manager, least-recently-used first.
+   *
+   * @returns Array of keys
+   */
+  function keys(): TKey[] {
+    return Array.from(managers.keys());
+  }
+
+  /**
+   * Check whether a key has a live manager (doesn't count as a use).
+   *
+   * @param key - The family key
+   * @returns true if the key has a manager
+   */
+  function has(key: TKey): boolean {
+    return managers.has(key);
+  }
+
+  return {
+    get,
+    destroy,
+    destroyAll,
+    keys,
+    has,
+  };
+}
+
+/**
+ * Type of the family returned by createSystemFamily
+ */
+export type SystemFamily<
+  TKey extends PropertyKey,
+  TConfig extends SystemConfig,
+  TOptional extends keyof TConfig & string = never,
+> = ReturnType<typeof createSystemFamily<TKey, TConfig, TOptional>>;
@@ -0,0 +1,179 @@
+/**
+ * Dependency Graph Helpers
+ *
+ * Small utilities over a SystemConfig's dependency graph, used to restart
+ * part of a running system while keeping the rest alive.
+ */
+
+import type { ResourceConfig, SystemConfig, StartedSystem } from "braided";
+
+/**
+ * Get the IDs a resource depends on (required and optional).
+ *
+ * @param resource - The resource config
+ * @returns Dependency IDs
+ */
+export function getDependencyIds(resource: ResourceConfig<any>): string[] {
+  const { dependencies } = resource;
+
+  if (!dependencies) {
+    return [];
+  }
+
+  if (Array.isArray(dependencies)) {
+    return dependencies.map(String);
+  }
+
+  const { required = [], optional = [] } = dependencies as {
+    required?: ReadonlyArray<PropertyKey>;
+    optional?: ReadonlyArray<PropertyKey>;
+  };
+  return [...required, ...optional].map(String);
+}
+
+/**
+ * Collect the given resources and everything that (transitively) depends on them.
+ *
+ * @param config - The system configuration
+ * @param ids - Resource IDs to start from
+ * @returns Set of affected resource IDs, including `ids`
+ */
+export function collectDependents(
+  config: SystemConfig,
+  ids: Iterable<string>
+): Set<string> {
+  const affected = new Set<string>(ids);
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+
+    for (const [id, resource] of Object.entries(config)) {
+      if (
+        !affected.has(id) &&
+        getDependencyIds(resource).some((dep) => affected.has(dep))
+      ) {
+        affected.add(id);
+        changed = true;
+      }
+    }
+  }
+
+  return affected;
+}
+
+/**
+ * A resource that hands out an already running instance.
+ *
+ * Halting it is a no-op - the instance is owned by the running system.
+ * If the resource had failed, starting the pin fails with the same error,
+ * so dependents see it as unavailable just like in the original startup.
+ *
+ * @param instance - The running instance
+ * @param error - The resource's startup error, if it failed
+ * @returns Resource config
+ */
+export function pinResource(
+  instance: unknown,
+  error?: Error
+): ResourceConfig<any> {
+  return {
+    start: () => {
+      if (error) {
+        throw error;
+      }
+      return instance;
+    },
+    halt: () => {},
+  };
+}
+
+/**
+ * Build a config containing only the affected resources.
+ *
+ * Dependencies outside the affected set are pinned to their running
+ * instances, so braided can order, start and halt the subset while
+ * reusing the rest of the system.
+ *
+ * @param config - The system configuration
+ * @param affected - IDs of the resources to (re)start or halt
+ * @param system - The running system
+ * @param errors - Startup errors of the running system
+ * @returns Config for the subset
+ */
+export function createSubsystemConfig<TConfig extends SystemConfig>(
+  config: TConfig,
+  affected: Set<string>,
+  system: Partial<StartedSystem<TConfig>>,
+  errors: Map<string, Error> | null
+): SystemConfig {
+  const subsystem: SystemConfig = {};
+
+  for (const id of affected) {
+    const resource = config[id];
+    subsystem[id] = resource;
+
+    for (const dep of getDependencyIds(resource)) {
+      if (!affected.has(dep)) {
+        subsystem[dep] = pinResource(system[dep], errors?.get(dep));
+      }
+    }
+  }
+
+  return subsystem;
+}
+
+/**
+ * Find the slowest dependency chain among timed resources.
+ *
+ * The chain's total is the startup time if independent resources could start
+ * in parallel - the part of a cold start that only faster resources can fix.
+ *
+ * @param config - The system configuration
+ * @param durations - Start duration in ms by resource ID; others count as 0
+ * @returns Resource IDs of the chain (dependencies first) and its total duration
+ */
+export function findCriticalPath(
+  config: SystemConfig,
+  durations: Map<string, number>
+): { path: string[]; durationMs: number } {
+  const finish = new Map<string, { durationMs: number; path: string[] }>();
+
+  function visit(id: string, visiting: Set<string>) {
+    const known = finish.get(id);
+    if (known) {
+      return known;
+    }
+
+    let slowest = { durationMs: 0, path: [] as string[] };
+    const resource = config[id];
+    if (resource && !visiting.has(id)) {
+      visiting.add(id);
+      for (const dep of getDependencyIds(resource)) {
+        const chain = visit(dep, visiting);
+        if (chain.durationMs > slowest.durationMs) {
+          slowest = chain;
+        }
+      }
+      visiting.delete(id);
+    }
+
+    const own = durations.get(id);
+    const result =
+      own === undefined
+        ? slowest
+        : { durationMs: slowest.durationMs + own, path: [...slowest.path, id] };
+    finish.set(id, result);
+    return result;
+  }
+
+  let critical = { durationMs: 0, path: [] as string[] };
+  for (const id of durations.keys()) {
+    const chain = visit(id, new Set());
+    if (critical.path.length === 0 || chain.durationMs > critical.durationMs) {
+      critical = chain;
+    }
+  }
+
+  return { path: critical.path, durationMs: critical.durationMs };
+}
@@ -5,23 +5,623 @@
  * The system lifecycle is managed outside React - React is just an observer.
  */
 
-import { createContext, useContext, useState, useCallback } from "react";
+import * as React from "react";
+import {
+  createContext,
+  useContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from "react";
 import type { StartedSystem, SystemConfig } from "braided";
-import type { createSystemManager } from "./manager";
+import type {
+  AvailableSystem,
+  SystemLifecycleStatus,
+  SystemManager,
+  SystemManagerState,
+} from "./manager";
+import type { SystemFamily } from "./family";
+import type { StartupProgress } from "./progress";
+import { SystemStartupError } from "./errors";
+import { readThenable } from "./thenable";
+import type { StateStore } from "./stores";
+
+// React 19's use(), undefined on React 18 (read dynamically so bundlers
+// don't complain about a missing export)
+const reactUse = (React as { use?: <T>(usable: PromiseLike<T>) => T }).use;
 
 /**
  * System status for manual control.
  */
 export type SystemStatus<TConfig extends SystemConfig = any> = {
-  isIdle: boolean; // Not started yet
+  status: SystemLifecycleStatus; // Raw manager lifecycle status
+  isIdle: boolean; // Not started yet (or halted)
   isLoading: boolean; // Starting now
-  isReady: boolean; // Started successfully
-  isError: boolean; // Startup failed
+  isReady: boolean; // Started and usable (possibly degraded)
+  isDegraded: boolean; // Started, but some optional resources failed
+  isError: boolean; // Startup failed (critical resource or startup threw)
+  isHalting: boolean; // Halting now
   system: StartedSystem<TConfig> | null;
   errors: Map<string, Error> | null;
   startSystem: () => void; // Trigger startup manually
+  halt: () => Promise<void>; // Halt the system (same as manager.destroySystem)
+  restart: () => Promise<void>; // Halt and start a fresh system
+};
+
+/**
+ * Lifecycle status of a single resource.
+ *
+ * - idle: The system is not started (or halted)
+ * - starting: The system is starting and has no instance yet, or the
+ *   resource is being restarted (restartResource, replaceConfig)
+ * - started: Started and usable
+ * - failed: start() threw, a dependency failed, or the startup failed
+ * - halting: The system is halting
+ */
+export type ResourceLifecycleStatus =
+  | "idle"
+  | "starting"
+  | "started"
+  | "failed"
+  | "halting";
+
+/**
+ * Status of a single resource, for degraded rendering.
+ */
+export type ResourceStatus = {
+  status: ResourceLifecycleStatus;
+  isStarted: boolean; // Usable - useOptionalResource returns it
+  isFailed: boolean;
+  error: Error | null; // Why it failed (null if another resource failed the startup)
+};
+
+const noopAsync = async () => {};
+
+/**
+ * Subscribe to a manager's lifecycle state.
+ */
+function useManagerState<TConfig extends SystemConfig>(
+  manager: SystemManager<TConfig, any>
+): SystemManagerState<TConfig> {
+  return useSyncExternalStore(
+    manager.subscribe,
+    manager.getState,
+    manager.getState
+  );
+}
+
+/**
+ * A resource instance exposing the useSyncExternalStore contract.
+ */
+export type ExternalStore<TSnapshot = unknown> = {
+  subscribe: (onStoreChange: () => void) => () => void;
+  getSnapshot: () => TSnapshot;
+  getServerSnapshot?: () => TSnapshot;
 };
 
+/**
+ * IDs of the resources in a system that are external stores.
+ */
+export type StoreResourceId<TSystem> = {
+  [K in keyof TSystem]: NonNullable<TSystem[K]> extends ExternalStore<any>
+    ? K
+    : never;
+}[keyof TSystem];
+
+/**
+ * Snapshot type of a store resource (undefined if the resource is optional).
+ */
+export type StoreSnapshot<TResource> =
+  TResource extends ExternalStore<infer TSnapshot> ? TSnapshot : undefined;
+
+/**
+ * IDs of the resources in a system that are state stores (Zustand, Redux).
+ */
+export type StateStoreResourceId<TSystem> = {
+  [K in keyof TSystem]: NonNullable<TSystem[K]> extends StateStore<any>
+    ? K
+    : never;
+}[keyof TSystem];
+
+/**
+ * State type of a state store resource (undefined if the resource is optional).
+ */
+export type StoreState<TResource> =
+  TResource extends StateStore<infer TState> ? TState : undefined;
+
+const noopUnsubscribe = () => {};
+
+/**
+ * Adapt a state store to the useSyncExternalStore contract.
+ *
+ * Memoized per store instance, so a restart resubscribes to the new store.
+ */
+function useStateStoreAdapter(
+  store: StateStore | undefined
+): ExternalStore | undefined {
+  return useMemo(
+    () =>
+      store && {
+        // Zustand passes (state, previous) to listeners - React wants none
+        subscribe: (onStoreChange: () => void) =>
+          store.subscribe(() => onStoreChange()),
+        getSnapshot: () => store.getState(),
+      },
+    [store]
+  );
+}
+
+/**
+ * A resource instance emitting events: `on(event, handler) => unsubscribe`
+ * (typed per event through overloads), or a DOM EventTarget.
+ */
+export type EventSource =
+  | { on: (event: any, handler: (...args: any[]) => void) => () => void }
+  | EventTarget;
+
+/**
+ * IDs of the resources in a system that emit events.
+ */
+export type EventSourceResourceId<TSystem> = {
+  [K in keyof TSystem]: NonNullable<TSystem[K]> extends EventSource ? K : never;
+}[keyof TSystem];
+
+/**
+ * Parameter tuples of every `on` overload (up to 8).
+ */
+type OnParameters<TOn> = TOn extends {
+  (...args: infer A1): any;
+  (...args: infer A2): any;
+  (...args: infer A3): any;
+  (...args: infer A4): any;
+  (...args: infer A5): any;
+  (...args: infer A6): any;
+  (...args: infer A7): any;
+  (...args: infer A8): any;
+}
+  ? A1 | A2 | A3 | A4 | A5 | A6 | A7 | A8
+  : never;
+
+/**
+ * Event names accepted by an event source resource.
+ */
+export type ResourceEventName<TResource> = TResource extends { on: infer TOn }
+  ? OnParameters<TOn>[0]
+  : TResource extends EventTarget
+    ? string
+    : never;
+
+/**
+ * Handler type for an event of an event source resource.
+ *
+ * Read from the `on` overload matching the event; generic `on` signatures
+ * fall back to their handler type.
+ */
+export type ResourceEventHandler<TResource, TEvent> = TResource extends {
+  on: infer TOn;
+}
+  ? [Extract<OnParameters<TOn>, [TEvent, any, ...any[]]>] extends [never]
+    ? OnParameters<TOn>[1]
+    : Extract<OnParameters<TOn>, [TEvent, any, ...any[]]>[1]
+  : TResource extends EventTarget
+    ? (event: Event) => void
+    : never;
+
+/**
+ * Subscribe to an external store resource, selecting part of its snapshot.
+ *
+ * The selection is memoized: while the snapshot is unchanged the selector
+ * isn't re-run, and a new selection equal (isEqual) to the previous one is
+ * replaced by the previous one - so the component doesn't re-render, even
+ * with an inline selector. A new store instance (system restart)
+ * resubscribes.
+ */
+function useStoreState<TSnapshot, TSelected>(
+  store: ExternalStore<TSnapshot> | undefined,
+  selector: (snapshot: TSnapshot | undefined) => TSelected,
+  isEqual: (a: TSelected, b: TSelected) => boolean
+): TSelected {
+  const subscribe = useCallback(
+    (onStoreChange: () => void) =>
+      store ? store.subscribe(onStoreChange) : noopUnsubscribe,
+    [store]
+  );
+
+  // Last rendered selection, kept across selector/isEqual changes
+  const rendered = useRef<{ selection: TSelected } | null>(null);
+
+  const [getSelection, getServerSelection] = useMemo(() => {
+    let memo: { snapshot: TSnapshot | undefined; selection: TSelected } | null =
+      null;
+
+    function select(snapshot: TSnapshot | undefined): TSelected {
+      if (memo && Object.is(memo.snapshot, snapshot)) {
+        return memo.selection;
+      }
+
+      const selection = selector(snapshot);
+      const previous = memo ?? rendered.current;
+      memo = {
+        snapshot,
+        selection:
+          previous && isEqual(previous.selection, selection)
+            ? previous.selection
+            : selection,
+      };
+      return memo.selection;
+    }
+
+    return [
+      () => select(store?.getSnapshot()),
+      () => select((store?.getServerSnapshot ?? store?.getSnapshot)?.call(store)),
+    ];
+  }, [store, selector, isEqual]);
+
+  const selection = useSyncExternalStore(
+    subscribe,
+    getSelection,
+    getServerSelection
+  );
+
+  useEffect(() => {
+    rendered.current = { selection };
+  }, [selection]);
+
+  return selection;
+}
+
+const identity = <T,>(value: T) => value;
+
+/**
+ * Listen to an event of an event source resource while mounted.
+ *
+ * The latest handler is always called, without resubscribing when it
+ * changes. A new source instance (system restart) rebinds the listener.
+ */
+function useEventListener(
+  source: EventSource | undefined,
+  eventName: string,
+  handler: (...args: any[]) => void
+) {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!source) {
+      return;
+    }
+
+    const listener = (...args: unknown[]) => handlerRef.current(...args);
+
+    if ("on" in source && typeof source.on === "function") {
+      return source.on(eventName, listener);
+    }
+
+    const target = source as EventTarget;
+    target.addEventListener(eventName, listener);
+    return () => target.removeEventListener(eventName, listener);
+  }, [source, eventName]);
+}
+
+/**
+ * Check whether a resource instance is an external store.
+ */
+function isExternalStore(value: unknown): value is ExternalStore {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as ExternalStore).subscribe === "function" &&
+    typeof (value as ExternalStore).getSnapshot === "function"
+  );
+}
+
+/**
+ * Track which store resources a selector reads, and subscribe to them.
+ *
+ * Selectors get a proxy of the system recording top-level resource access.
+ * The store resources read become dependencies: their snapshots are
+ * remembered, and subscriptions follow the dependencies of the last run.
+ */
+function createSelectionTracker<TSystem extends object>(system: TSystem) {
+  let dependencies = new Map<PropertyKey, unknown>(); // Store ID -> snapshot
+  const subscriptions = new Map<PropertyKey, () => void>();
+  let onChange: (() => void) | null = null;
+
+  function getStore(id: PropertyKey): ExternalStore {
+    return (system as Record<PropertyKey, ExternalStore>)[id];
+  }
+
+  /**
+   * Align subscriptions with the current dependencies.
+   */
+  function sync() {
+    if (!onChange) {
+      return;
+    }
+
+    for (const [id, unsubscribe] of Array.from(subscriptions)) {
+      if (!dependencies.has(id)) {
+        unsubscribe();
+        subscriptions.delete(id);
+      }
+    }
+
+    for (const id of dependencies.keys()) {
+      if (!subscriptions.has(id)) {
+        subscriptions.set(
+          id,
+          getStore(id).subscribe(() => onChange?.())
+        );
+      }
+    }
+  }
+
+  function subscribe(listener: () => void) {
+    onChange = listener;
+    sync();
+
+    return () => {
+      onChange = null;
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      subscriptions.clear();
+    };
+  }
+
+  /**
+   * Run a selector, recording the stores it reads and their snapshots.
+   */
+  function track<TSelected>(selector: (system: TSystem) => TSelected) {
+    const accessed = new Set<PropertyKey>();
+    const proxy = new Proxy(system, {
+      get(target, key, receiver) {
+        accessed.add(key);
+        return Reflect.get(target, key, receiver);
+      },
+    });
+
+    const selection = selector(proxy);
+
+    dependencies = new Map();
+    for (const id of accessed) {
+      const resource = (system as Record<PropertyKey, unknown>)[id];
+      if (isExternalStore(resource)) {
+        dependencies.set(id, resource.getSnapshot());
+      }
+    }
+    sync();
+
+    return selection;
+  }
+
+  /**
+   * Whether any dependency's snapshot changed since the last run.
+   */
+  function changed() {
+    return Array.from(dependencies).some(
+      ([id, snapshot]) => !Object.is(getStore(id).getSnapshot(), snapshot)
+    );
+  }
+
+  return { subscribe, track, changed };
+}
+
+/**
+ * Select a value from several store resources of a system.
+ *
+ * Re-runs the selector only when a store it read notifies with a new
+ * snapshot. Every store is read in the same getSnapshot call, so React
+ * sees a consistent selection across resources (no tearing).
+ */
+function useSystemSelection<TSystem extends object, TSelected>(
+  system: TSystem,
+  selector: (system: TSystem) => TSelected,
+  isEqual: (a: TSelected, b: TSelected) => boolean
+): TSelected {
+  // Last rendered selection, kept across selector/isEqual changes
+  const rendered = useRef<{ selection: TSelected } | null>(null);
+  const tracker = useMemo(() => createSelectionTracker(system), [system]);
+
+  const getSelection = useMemo(() => {
+    let memo: { selection: TSelected } | null = null;
+
+    return () => {
+      if (memo && !tracker.changed()) {
+        return memo.selection;
+      }
+
+      const selection = tracker.track(selector);
+      const previous = memo ?? rendered.current;
+      memo = {
+        selection:
+          previous && isEqual(previous.selection, selection)
+            ? previous.selection
+            : selection,
+      };
+      return memo.selection;
+    };
+  }, [tracker, selector, isEqual]);
+
+  const selection = useSyncExternalStore(
+    tracker.subscribe,
+    getSelection,
+    getSelection
+  );
+
+  useEffect(() => {
+    rendered.current = { selection };
+  }, [selection]);
+
+  return selection;
+}
+
+/**
+ * Derive a resource's status from the manager state.
+ *
+ * Reads the startup errors recorded by the manager - nothing is thrown or
+ * caught, so it is safe to call during any render.
+ */
+function getResourceStatus<TConfig extends SystemConfig>(
+  state: SystemManagerState<TConfig>,
+  resourceId: string
+): ResourceStatus {
+  function status(
+    lifecycle: ResourceLifecycleStatus,
+    error: Error | null = null
+  ): ResourceStatus {
+    return {
+      status: lifecycle,
+      isStarted: lifecycle === "started",
+      isFailed: lifecycle === "failed",
+      error,
+    };
+  }
+
+  const error = state.errors?.get(resourceId) ?? null;
+
+  switch (state.status) {
+    case "idle":
+    case "halted":
+      return status("idle");
+    case "halting":
+      return status("halting");
+    case "failed":
+      return status("failed", error ?? state.error);
+    default:
+      // Transition and resource restarts keep exposing the previous
+      // system while starting - but not the instances being restarted
+      if (!state.system || state.restarting?.includes(resourceId)) {
+        return status("starting");
+      }
+      return error ? status("failed", error) : status("started");
+  }
+}
+
+/**
+ * Status of a resource of a system injected through SystemProvider.
+ *
+ * Injected systems are ready; a resource left out behaves as failed.
+ */
+function getContextResourceStatus(
+  system: object,
+  resourceId: PropertyKey
+): ResourceStatus {
+  const started =
+    (system as Record<PropertyKey, unknown>)[resourceId] !== undefined;
+  return {
+    status: started ? "started" : "failed",
+    isStarted: started,
+    isFailed: !started,
+    error: null,
+  };
+}
+
+/**
+ * Subscribe to a manager's startup progress.
+ */
+function useManagerProgress<TConfig extends SystemConfig>(
+  manager: SystemManager<TConfig, any>
+): StartupProgress {
+  return useSyncExternalStore(
+    manager.subscribeProgress,
+    manager.getStartupProgress,
+    manager.getStartupProgress
+  );
+}
+
+/**
+ * Hold a reference on the manager while mounted.
+ *
+ * Drives the "refcount" lifecycle; effects don't run while suspended, so
+ * only committed consumers count.
+ */
+function useManagerReference<TConfig extends SystemConfig>(
+  manager: SystemManager<TConfig, any>,
+  enabled = true
+) {
+  useEffect(
+    () => (enabled ? manager.acquire() : undefined),
+    [manager, enabled]
+  );
+}
+
+/**
+ * Resolve the system for a render, Suspense/ErrorBoundary style.
+ *
+ * Returns the running system, throws the startup error, or suspends on
+ * manager.systemPromise until the system is up (with React 19 use() when
+ * available). Failures of optional resources don't throw - those
+ * resources are just undefined.
+ */
+function resolveSystem<
+  TConfig extends SystemConfig,
+  TOptional extends keyof TConfig & string,
+>(
+  manager: SystemManager<TConfig, TOptional>,
+  state: SystemManagerState<TConfig>
+): AvailableSystem<TConfig, TOptional> {
+  const current = state.status === "halting" ? null : state.system;
+
+  // Startup itself threw - nothing to wait for
+  if (state.status === "failed" && state.error) {
+    throw state.error;
+  }
+
+  // Already started - check for critical errors
+  if (current) {
+    const errors = manager.getCriticalErrors(state.errors ?? new Map());
+    if (errors.size > 0) {
+      // Throw error to trigger ErrorBoundary
+      throw new SystemStartupError(errors);
+    }
+    return current;
+  }
+
+  // Not started yet - start and suspend on the manager's stable thenable
+  return readThenable(manager.systemPromise, reactUse);
+}
+
+/**
+ * Read a manager's status along with stable start/halt/restart triggers.
+ */
+function useManagerStatus<TConfig extends SystemConfig>(
+  manager: SystemManager<TConfig, any>
+): SystemStatus<TConfig> {
+  const state = useManagerState(manager);
+
+  const startSystem = useCallback(() => {
+    // Failures are reflected in the manager state
+    manager.getSystem().catch(() => {});
+  }, [manager]);
+
+  const halt = useCallback(async () => {
+    await manager.destroySystem();
+  }, [manager]);
+
+  const restart = useCallback(async () => {
+    await manager.restartSystem().catch(() => {});
+  }, [manager]);
+
+  return {
+    status: state.status,
+    isIdle: state.status === "idle" || state.status === "halted",
+    isLoading: state.status === "starting",
+    isReady: state.status === "ready" || state.status === "degraded",
+    isDegraded: state.status === "degraded",
+    isError: state.status === "failed",
+    isHalting: state.status === "halting",
+    system: state.system,
+    errors: state.errors,
+    startSystem,
+    halt,
+    restart,
+  };
+}
+
 /**
  * Creates typed hooks for a system.
  *
@@ -103,9 +703,10 @@ export type SystemStatus<TConfig extends SystemConfig = any> = {
  * }
  * ```
  */
-export function createSystemHooks<TConfig extends SystemConfig>(
-  manager: ReturnType<typeof createSystemManager<TConfig>>
-) {
+export function createSystemHooks<
+  TConfig extends SystemConfig,
+  TOptional extends keyof TConfig & string = never,
+>(manager: SystemManager<TConfig, TOptional>) {
   // Create context for dependency injection (optional override)
   const SystemContext = createContext<StartedSystem<TConfig> | null>(null);
 
@@ -138,139 +739,570 @@ export function createSystemHooks<TConfig extends SystemConfig>(
    * 2. Manager (default) - for production
    *
    * Integrates with React Suspense and ErrorBoundary:
-   * - Suspends (throws promise) while system is starting
-   * - Throws error if system startup failed
-   * - Returns system once ready
+   * - Suspends (throws promise) while system is starting or halting
+   * - Throws error if a critical resource failed (or startup threw)
+   * - Returns system once ready - failed optional resources are undefined
+   *
+   * Subscribes to the manager, so components re-render with the new
+   * instance after manager.restartSystem(). During a "transition" restart
+   * the previous instance keeps being returned until the swap.
+   *
+   * Holds a reference while mounted, so with `lifecycle: "refcount"` the
+   * system is halted once no component uses it any more.
    *
    * @returns The started system instance
    * @throws Promise if system is starting (triggers Suspense)
-   * @throws Error if system startup failed (triggers ErrorBoundary)
+   * @throws SystemStartupError if critical resources failed (triggers ErrorBoundary)
+   * @throws Error if startup itself threw, e.g. SystemStartTimeoutError
    */
-  function useSystem(): StartedSystem<TConfig> {
+  function useSystem(): AvailableSystem<TConfig, TOptional> {
     // Try context first (DI override)
     const contextSystem = useContext(SystemContext);
+    const state = useManagerState(manager);
+    useManagerReference(manager, !contextSystem);
     if (contextSystem) {
       return contextSystem;
     }
 
     // Fall back to manager (production path)
-    const current = manager.getCurrentSystem();
-
-    // Already started - check for errors
-    if (current) {
-      const errors = manager.getStartupErrors();
-      if (errors && errors.size > 0) {
-        // Throw error to trigger ErrorBoundary
-        const errorList = Array.from(errors.entries())
-          .map(([id, err]) => `${id}: ${err.message}`)
-          .join(", ");
-        throw new Error(`System startup failed: ${errorList}`);
-      }
-      return current;
-    }
-
-    // Not started yet - start and suspend
-    throw manager.getSystem().then(() => {
-      const errors = manager.getStartupErrors();
-      if (errors && errors.size > 0) {
-        const errorList = Array.from(errors.entries())
-          .map(([id, err]) => `${id}: ${err.message}`)
-          .join(", ");
-        throw new Error(`System startup failed: ${errorList}`);
-      }
-    });
+    return resolveSystem(manager, state);
   }
 
   /**
    * Hook to access a single resource from the system.
    *
    * Provides full type inference - TypeScript knows the exact type
-   * of the resource based on the resourceId.
+   * of the resource based on the resourceId. Resources declared in the
+   * manager's `optional` option are typed `T | undefined`.
    *
    * @param resourceId - The ID of the resource to access
-   * @returns The started resource instance, fully typed
+   * @returns The started resource instance, fully typed (undefined if an optional resource failed)
    * @throws Same as useSystem (Suspense/ErrorBoundary integration)
    */
   function useResource<K extends keyof TConfig>(
     resourceId: K
-  ): StartedSystem<TConfig>[K] {
+  ): AvailableSystem<TConfig, TOptional>[K] {
     const system = useSystem();
     return system[resourceId];
   }
 
+  /**
+   * Hook to access a resource that the component can render without.
+   *
+   * Never suspends or throws: returns the resource once the system is up
+   * and the resource started, undefined while the system isn't started or
+   * if the resource failed. Doesn't start the system - use it next to
+   * components that do, or after startSystem().
+   *
+   * Holds a reference while mounted, like useSystem.
+   *
+   * @param resourceId - The ID of the resource to access
+   * @returns The started resource instance, or undefined
+   *
+   * @example
+   * ```typescript
+   * function BuyButton() {
+   *   const analytics = useOptionalResource("analytics")
+   *   return <button onClick={() => analytics?.track("buy")}>Buy</button>
+   * }
+   * ```
+   */
+  function useOptionalResource<K extends keyof TConfig>(
+    resourceId: K
+  ): AvailableSystem<TConfig, TOptional>[K] | undefined {
+    const contextSystem = useContext(SystemContext);
+    const state = useManagerState(manager);
+    useManagerReference(manager, !contextSystem);
+    if (contextSystem) {
+      return contextSystem[resourceId];
+    }
+
+    return getResourceStatus(state, resourceId as string).isStarted
+      ? (state.system as AvailableSystem<TConfig, TOptional>)[resourceId]
+      : undefined;
+  }
+
+  /**
+   * Hook for the status of a single resource.
+   *
+   * Does not suspend, throw or start the system. Derived from the
+   * manager's startup errors, so a failed optional resource reports
+   * `failed` with its error while the rest of the system is ready.
+   *
+   * @param resourceId - The ID of the resource
+   * @returns Resource status: `{ status, isStarted, isFailed, error }`
+   *
+   * @example
+   * ```typescript
+   * function SearchBox() {
+   *   const { isFailed } = useResourceStatus("search")
+   *   if (isFailed) return <p>Search is unavailable</p>
+   *   // ...
+   * }
+   * ```
+   */
+  function useResourceStatus(resourceId: keyof TConfig): ResourceStatus {
+    const contextSystem = useContext(SystemContext);
+    const state = useManagerState(manager);
+    if (contextSystem) {
+      return getContextResourceStatus(contextSystem, resourceId);
+    }
+
+    return getResourceStatus(state, resourceId as string);
+  }
+
+  /**
+   * Hook to read the state of a store resource (one exposing `subscribe` /
+   * `getSnapshot`), replacing hand-written useSyncExternalStore calls.
+   *
+   * Suspends like useResource. Re-renders only when the selected value
+   * changes (per `isEqual`, default Object.is), uses `getServerSnapshot`
+   * when the resource has one, and resubscribes to the new instance after
+   * a restart. Optional resources that failed yield an undefined snapshot.
+   *
+   * @param resourceId - ID of a store resource
+   * @param selector - Picks the value to return from the snapshot (default: whole snapshot)
+   * @param isEqual - Compares selections to skip re-renders (default: Object.is)
+   * @returns The selected state
+   *
+   * @example
+   * ```typescript
+   * const count = useResourceState("counter")
+   * const unread = useResourceState(
+   *   "inbox",
+   *   (inbox) => inbox.messages.filter((m) => !m.read),
+   *   (a, b) => a.length === b.length && a.every((m, i) => m === b[i])
+   * )
+   * ```
+   */
+  function useResourceState<
+    K extends StoreResourceId<AvailableSystem<TConfig, TOptional>>,
+    TSelected = StoreSnapshot<AvailableSystem<TConfig, TOptional>[K]>,
+  >(
+    resourceId: K,
+    selector?: (
+      snapshot: StoreSnapshot<AvailableSystem<TConfig, TOptional>[K]>
+    ) => TSelected,
+    isEqual?: (a: TSelected, b: TSelected) => boolean
+  ): TSelected {
+    const store = useResource(resourceId) as ExternalStore | undefined;
+    return useStoreState(
+      store,
+      (selector ?? identity) as (snapshot: unknown) => TSelected,
+      isEqual ?? Object.is
+    );
+  }
+
+  /**
+   * Hook to read a state store resource (Zustand, Redux, anything with
+   * `subscribe` / `getState`), see defineStoreResource().
+   *
+   * Suspends like useResource. Binds through useSyncExternalStore to the
+   * current store instance, so components follow the new store after a
+   * restart. Re-renders only when the selected value changes.
+   *
+   * @param resourceId - ID of a state store resource
+   * @param selector - Picks the value to return from the state (default: whole state)
+   * @param isEqual - Compares selections to skip re-renders (default: Object.is)
+   * @returns The selected state
+   *
+   * @example
+   * ```typescript
+   * function Counter() {
+   *   const count = useResourceStore("counterStore", (state) => state.count)
+   *   const increment = useResourceStore("counterStore", (state) => state.increment)
+   *   return <button onClick={increment}>{count}</button>
+   * }
+   * ```
+   */
+  function useResourceStore<
+    K extends StateStoreResourceId<AvailableSystem<TConfig, TOptional>>,
+    TSelected = StoreState<AvailableSystem<TConfig, TOptional>[K]>,
+  >(
+    resourceId: K,
+    selector?: (
+      state: StoreState<AvailableSystem<TConfig, TOptional>[K]>
+    ) => TSelected,
+    isEqual?: (a: TSelected, b: TSelected) => boolean
+  ): TSelected {
+    const store = useResource(resourceId) as StateStore | undefined;
+    return useStoreState(
+      useStateStoreAdapter(store),
+      (selector ?? identity) as (state: unknown) => TSelected,
+      isEqual ?? Object.is
+    );
+  }
+
+  /**
+   * Hook to listen to an event of an event-emitter resource while mounted.
+   *
+   * Works with resources exposing `on(event, handler) => unsubscribe` and
+   * with DOM EventTargets. Event names and handler types come from the
+   * resource's `on` signature (one overload per event for typed payloads).
+   * The latest handler is called without resubscribing, and the listener
+   * moves to the new instance after a restart. Suspends like useResource.
+   *
+   * @param resourceId - ID of an event source resource
+   * @param eventName - Event to listen to
+   * @param handler - Called with the event's arguments
+   *
+   * @example
+   * ```typescript
+   * function TickCounter() {
+   *   const [ticks, setTicks] = useState(0)
+   *   useResourceEvent("eventBus", "timer:tick", (count: number) => setTicks(count))
+   *   return <span>{ticks}</span>
+   * }
+   * ```
+   */
+  function useResourceEvent<
+    K extends EventSourceResourceId<AvailableSystem<TConfig, TOptional>>,
+    E extends ResourceEventName<NonNullable<AvailableSystem<TConfig, TOptional>[K]>>,
+  >(
+    resourceId: K,
+    eventName: E,
+    handler: ResourceEventHandler<
+      NonNullable<AvailableSystem<TConfig, TOptional>[K]>,
+      E
+    >
+  ): void {
+    const source = useResource(resourceId) as EventSource | undefined;
+    useEventListener(source, eventName, handler);
+  }
+
+  /**
+   * Hook to derive a value from several store resources.
+   *
+   * Builds on useSystem (same Suspense/ErrorBoundary behaviour). The
+   * selector's reads are tracked: it re-runs only when one of the store
+   * resources it touched (`subscribe` / `getSnapshot`) notifies, and the
+   * component re-renders only when the result changes per `isEqual`.
+   * State outside store resources isn't tracked.
+   *
+   * @param selector - Computes the value from the system
+   * @param isEqual - Compares results to skip re-renders (default: Object.is)
+   * @returns The selected value
+   *
+   * @example
+   * ```typescript
+   * const summary = useSystemSelector((system) => ({
+   *   count: system.counter.getSnapshot(),
+   *   items: system.dataStore.getSnapshot().items.length,
+   * }), (a, b) => a.count === b.count && a.items === b.items)
+   * ```
+   */
+  function useSystemSelector<TSelected>(
+    selector: (system: AvailableSystem<TConfig, TOptional>) => TSelected,
+    isEqual: (a: TSelected, b: TSelected) => boolean = Object.is
+  ): TSelected {
+    const system = useSystem();
+    return useSystemSelection(system, selector, isEqual);
+  }
+
   /**
    * Hook for manual system startup control.
    *
    * Unlike useSystem, this does NOT suspend or throw.
-   * Instead, it returns status and a manual trigger.
+   * Instead, it returns status and manual triggers.
+   *
+   * The status is read from the manager, so every consumer sees the same
+   * state - including transitions triggered outside React (e.g. a logout
+   * handler calling manager.destroySystem()).
    *
    * Use this when you want to:
    * - Show a welcome screen before starting
    * - Defer startup until user action
    * - Manually handle loading/error states
    *
-   * @returns System status and manual start trigger
+   * @returns System status and manual start/halt/restart triggers
    */
   function useSystemStatus(): SystemStatus<TConfig> {
     const contextSystem = useContext(SystemContext);
+    const status = useManagerStatus(manager);
 
     // If context provided, system is ready
     if (contextSystem) {
       return {
+        status: "ready",
         isIdle: false,
         isLoading: false,
         isReady: true,
+        isDegraded: false,
         isError: false,
+        isHalting: false,
         system: contextSystem,
         errors: null,
         startSystem: () => {}, // No-op, already started
+        halt: noopAsync,
+        restart: noopAsync,
       };
     }
 
-    // Otherwise check manager
-    const [status, setStatus] = useState<
-      "idle" | "loading" | "ready" | "error"
-    >(() => {
-      return manager.isStarted() ? "ready" : "idle";
-    });
+    return status;
+  }
 
-    const startSystem = useCallback(() => {
-      if (manager.isStarted()) {
-        setStatus("ready");
-        return;
-      }
+  /**
+   * Hook for per-resource startup progress.
+   *
+   * Does not suspend or start the system - use it in a Suspense fallback
+   * to show which resources are done while useSystem() suspends.
+   *
+   * @returns Progress snapshot: `{ total, started, current, resources }`
+   *
+   * @example
+   * ```typescript
+   * function LoadingScreen() {
+   *   const { started, total, current } = useStartupProgress()
+   *   return <ProgressBar value={started / total} label={current} />
+   * }
+   *
+   * <Suspense fallback={<LoadingScreen />}>
+   *   <App />
+   * </Suspense>
+   * ```
+   */
+  function useStartupProgress(): StartupProgress {
+    return useManagerProgress(manager);
+  }
 
-      setStatus("loading");
-      manager
-        .getSystem()
-        .then(() => {
-          const errors = manager.getStartupErrors();
-          if (errors && errors.size > 0) {
-            setStatus("error");
-          } else {
-            setStatus("ready");
-          }
-        })
-        .catch(() => {
-          setStatus("error");
-        });
-    }, []);
+  return {
+    SystemProvider,
+    useSystem,
+    useResource,
+    useOptionalResource,
+    useResourceStatus,
+    useResourceState,
+    useResourceStore,
+    useResourceEvent,
+    useSystemSelector,
+    useSystemStatus,
+    useStartupProgress,
+  };
+}
 
-    return {
-      isIdle: status === "idle",
-      isLoading: status === "loading",
-      isReady: status === "ready",
-      isError: status === "error",
-      system: manager.getCurrentSystem(),
-      errors: manager.getStartupErrors(),
-      startSystem,
-    };
+/**
+ * Creates typed hooks for a system family.
+ *
+ * Same Suspense/ErrorBoundary behaviour as createSystemHooks, per key:
+ * each key's system starts on first use and suspends until ready.
+ * Rendering a key counts as a use for the family's LRU eviction.
+ *
+ * @param family - The system family (from createSystemFamily)
+ * @returns Keyed useSystem, useResource, useSystemStatus and useStartupProgress hooks
+ *
+ * @example
+ * ```typescript
+ * // rooms.ts
+ * export const rooms = createSystemFamily((roomId: string) => createRoomConfig(roomId))
+ * export const { useSystem, useResource } = createFamilyHooks(rooms)
+ *
+ * function ChatRoom({ roomId }: { roomId: string }) {
+ *   const socket = useResource(roomId, 'socket') // Suspends until the room's system is ready
+ *   return <div>...</div>
+ * }
+ * ```
+ */
+export function createFamilyHooks<
+  TKey extends PropertyKey,
+  TConfig extends SystemConfig,
+  TOptional extends keyof TConfig & string = never,
+>(family: SystemFamily<TKey, TConfig, TOptional>) {
+  /**
+   * Hook to access the system for a key.
+   *
+   * @param key - The family key
+   * @returns The started system instance
+   * @throws Promise if the key's system is starting (triggers Suspense)
+   * @throws SystemStartupError if the key's critical resources failed (triggers ErrorBoundary)
+   */
+  function useSystem(key: TKey): AvailableSystem<TConfig, TOptional> {
+    const manager = family.get(key);
+    const state = useManagerState(manager);
+    useManagerReference(manager);
+    return resolveSystem(manager, state);
+  }
+
+  /**
+   * Hook to access a single resource from a key's system.
+   *
+   * @param key - The family key
+   * @param resourceId - The ID of the resource to access
+   * @returns The started resource instance, fully typed
+   * @throws Same as useSystem (Suspense/ErrorBoundary integration)
+   */
+  function useResource<K extends keyof TConfig>(
+    key: TKey,
+    resourceId: K
+  ): AvailableSystem<TConfig, TOptional>[K] {
+    const system = useSystem(key);
+    return system[resourceId];
+  }
+
+  /**
+   * Hook to access a resource of a key's system that the component can
+   * render without. Never suspends or throws.
+   *
+   * @param key - The family key
+   * @param resourceId - The ID of the resource to access
+   * @returns The started resource instance, or undefined
+   */
+  function useOptionalResource<K extends keyof TConfig>(
+    key: TKey,
+    resourceId: K
+  ): AvailableSystem<TConfig, TOptional>[K] | undefined {
+    const manager = family.get(key);
+    const state = useManagerState(manager);
+    useManagerReference(manager);
+
+    return getResourceStatus(state, resourceId as string).isStarted
+      ? (state.system as AvailableSystem<TConfig, TOptional>)[resourceId]
+      : undefined;
+  }
+
+  /**
+   * Hook for the status of a single resource of a key's system.
+   *
+   * @param key - The family key
+   * @param resourceId - The ID of the resource
+   * @returns Resource status: `{ status, isStarted, isFailed, error }`
+   */
+  function useResourceStatus(
+    key: TKey,
+    resourceId: keyof TConfig
+  ): ResourceStatus {
+    return getResourceStatus(
+      useManagerState(family.get(key)),
+      resourceId as string
+    );
+  }
+
+  /**
+   * Hook to read the state of a store resource of a key's system.
+   *
+   * @param key - The family key
+   * @param resourceId - ID of a store resource
+   * @param selector - Picks the value to return from the snapshot (default: whole snapshot)
+   * @param isEqual - Compares selections to skip re-renders (default: Object.is)
+   * @returns The selected state
+   */
+  function useResourceState<
+    K extends StoreResourceId<AvailableSystem<TConfig, TOptional>>,
+    TSelected = StoreSnapshot<AvailableSystem<TConfig, TOptional>[K]>,
+  >(
+    key: TKey,
+    resourceId: K,
+    selector?: (
+      snapshot: StoreSnapshot<AvailableSystem<TConfig, TOptional>[K]>
+    ) => TSelected,
+    isEqual?: (a: TSelected, b: TSelected) => boolean
+  ): TSelected {
+    const store = useResource(key, resourceId) as ExternalStore | undefined;
+    return useStoreState(
+      store,
+      (selector ?? identity) as (snapshot: unknown) => TSelected,
+      isEqual ?? Object.is
+    );
+  }
+
+  /**
+   * Hook to read a state store resource of a key's system.
+   *
+   * @param key - The family key
+   * @param resourceId - ID of a state store resource
+   * @param selector - Picks the value to return from the state (default: whole state)
+   * @param isEqual - Compares selections to skip re-renders (default: Object.is)
+   * @returns The selected state
+   */
+  function useResourceStore<
+    K extends StateStoreResourceId<AvailableSystem<TConfig, TOptional>>,
+    TSelected = StoreState<AvailableSystem<TConfig, TOptional>[K]>,
+  >(
+    key: TKey,
+    resourceId: K,
+    selector?: (
+      state: StoreState<AvailableSystem<TConfig, TOptional>[K]>
+    ) => TSelected,
+    isEqual?: (a: TSelected, b: TSelected) => boolean
+  ): TSelected {
+    const store = useResource(key, resourceId) as StateStore | undefined;
+    return useStoreState(
+      useStateStoreAdapter(store),
+      (selector ?? identity) as (state: unknown) => TSelected,
+      isEqual ?? Object.is
+    );
+  }
+
+  /**
+   * Hook to listen to an event of an event-emitter resource of a key's system.
+   *
+   * @param key - The family key
+   * @param resourceId - ID of an event source resource
+   * @param eventName - Event to listen to
+   * @param handler - Called with the event's arguments
+   */
+  function useResourceEvent<
+    K extends EventSourceResourceId<AvailableSystem<TConfig, TOptional>>,
+    E extends ResourceEventName<NonNullable<AvailableSystem<TConfig, TOptional>[K]>>,
+  >(
+    key: TKey,
+    resourceId: K,
+    eventName: E,
+    handler: ResourceEventHandler<
+      NonNullable<AvailableSystem<TConfig, TOptional>[K]>,
+      E
+    >
+  ): void {
+    const source = useResource(key, resourceId) as EventSource | undefined;
+    useEventListener(source, eventName, handler);
+  }
+
+  /**
+   * Hook to derive a value from several store resources of a key's system.
+   *
+   * @param key - The family key
+   * @param selector - Computes the value from the system
+   * @param isEqual - Compares results to skip re-renders (default: Object.is)
+   * @returns The selected value
+   */
+  function useSystemSelector<TSelected>(
+    key: TKey,
+    selector: (system: AvailableSystem<TConfig, TOptional>) => TSelected,
+    isEqual: (a: TSelected, b: TSelected) => boolean = Object.is
+  ): TSelected {
+    const system = useSystem(key);
+    return useSystemSelection(system, selector, isEqual);
+  }
+
+  /**
+   * Hook for manual startup control of a key's system.
+   *
+   * @param key - The family key
+   * @returns System status and manual start/halt/restart triggers
+   */
+  function useSystemStatus(key: TKey): SystemStatus<TConfig> {
+    return useManagerStatus(family.get(key));
+  }
+
+  /**
+   * Hook for per-resource startup progress of a key's system.
+   *
+   * @param key - The family key
+   * @returns Progress snapshot: `{ total, started, current, resources }`
+   */
+  function useStartupProgress(key: TKey): StartupProgress {
+    return useManagerProgress(family.get(key));
   }
 
   return {
-    SystemProvider,
     useSystem,
     useResource,
+    useOptionalResource,
+    useResourceStatus,
+    useResourceState,
+    useResourceStore,
+    useResourceEvent,
+    useSystemSelector,
     useSystemStatus,
+    useStartupProgress,
   };
 }
@@ -0,0 +1,69 @@
+/**
+ * Hot Module Replacement - Keep the running system across module updates
+ *
+ * When the module that creates the manager is re-evaluated (Vite
+ * `import.meta.hot`, webpack `module.hot`), the old manager hands its
+ * running system to the new one through the hot module data, instead of
+ * leaking it and starting a second system.
+ */
+
+import type { SystemConfig, SystemStartResult } from "braided";
+import type { SystemShutdownResult } from "./shutdown";
+
+/**
+ * The subset of the Vite / webpack hot module API the manager uses.
+ */
+export type HotModule = {
+  /** Data persisted from the previous version of the module */
+  data?: Record<string, any>;
+  /** Register a callback run before the module is replaced */
+  dispose: (callback: (data: Record<string, any>) => void) => void;
+};
+
+/**
+ * What an old manager hands to its replacement.
+ */
+export type HotHandoff<TConfig extends SystemConfig> = {
+  /** Config the running system was started with */
+  config: TConfig;
+  /** Settled or pending startup to adopt, null if nothing is running */
+  systemPromise: Promise<SystemStartResult<TConfig>> | null;
+  /** Pending halt to wait for before starting, if any */
+  haltPromise: Promise<SystemShutdownResult> | null;
+};
+
+/**
+ * Default key used in the hot module data.
+ */
+export const DEFAULT_HOT_KEY = "braided-react:manager";
+
+/**
+ * Read the handoff left by the previous version of the module.
+ *
+ * @param hot - The hot module API
+ * @param key - Key in the hot module data
+ * @returns The handoff, or null on first load
+ */
+export function readHotHandoff<TConfig extends SystemConfig>(
+  hot: HotModule,
+  key: string
+): HotHandoff<TConfig> | null {
+  return hot.data?.[key] ?? null;
+}
+
+/**
+ * Register the handoff to run when the module is replaced.
+ *
+ * @param hot - The hot module API
+ * @param key - Key in the hot module data
+ * @param handoff - Disposes the current manager and returns what it hands over
+ */
+export function registerHotHandoff<TConfig extends SystemConfig>(
+  hot: HotModule,
+  key: string,
+  handoff: () => HotHandoff<TConfig>
+) {
+  hot.dispose((data) => {
+    data[key] = handoff();
+  });
+}
@@ -66,8 +66,77 @@
  * ```
  */
 
-export { createSystemHooks } from "./hooks";
+export { createFamilyHooks, createSystemHooks } from "./hooks";
 export { createSystemManager } from "./manager";
+export { createSystemFamily } from "./family";
+export {
+  SystemHaltError,
+  SystemStartTimeoutError,
+  SystemStartupError,
+  isSystemHaltError,
+  isSystemStartTimeoutError,
+  isSystemStartupError,
+} from "./errors";
+export { createLoggingPlugin } from "./plugins";
+export { createConsoleLogger, createSilentLogger } from "./logger";
+export { bindBrowserLifecycle } from "./browser";
+export { createInMemorySpanExporter } from "./metrics";
+export { defineStoreResource, isStateStore } from "./stores";
 
-export type { ManagedSystem } from "./manager";
-export type { SystemStatus } from "./hooks";
+export type {
+  AvailableSystem,
+  GetSystemOptions,
+  ManagedSystem,
+  RestartOptions,
+  SystemManager,
+  SystemManagerOptions,
+  SystemManagerState,
+  SystemLifecycleStatus,
+  SystemStateListener,
+} from "./manager";
+export type {
+  EventSource,
+  EventSourceResourceId,
+  ExternalStore,
+  ResourceEventHandler,
+  ResourceEventName,
+  ResourceLifecycleStatus,
+  ResourceStatus,
+  StateStoreResourceId,
+  StoreResourceId,
+  StoreSnapshot,
+  StoreState,
+  SystemStatus,
+} from "./hooks";
+export type { StateStore } from "./stores";
+export type { RetryPolicy } from "./retry";
+export type { HotModule } from "./hot";
+export type { SystemFamily, SystemFamilyOptions } from "./family";
+export type {
+  BeforeHaltEvent,
+  BeforeStartEvent,
+  HaltCompleteEvent,
+  LifecycleScope,
+  ResourceFailedEvent,
+  ResourceStartedEvent,
+  StartCompleteEvent,
+  StartErrorEvent,
+  StartRetryEvent,
+  SystemPlugin,
+} from "./plugins";
+export type {
+  ResourceProgress,
+  ResourceStartStatus,
+  StartupProgress,
+  StartupProgressListener,
+} from "./progress";
+export type { SystemShutdownResult } from "./shutdown";
+export type { ConsoleLoggerOptions, LogLevel, Logger } from "./logger";
+export type { BrowserLifecycleOptions } from "./browser";
+export type {
+  ShutdownMetrics,
+  Span,
+  SpanExporter,
+  StartupMetrics,
+  SystemMetrics,
+} from "./metrics";
@@ -0,0 +1,90 @@
+/**
+ * Logger - Leveled diagnostics for the manager
+ *
+ * Every lifecycle message goes through a Logger, so apps can route them to
+ * their structured logging and tests can silence them.
+ */
+
+/**
+ * Log levels, from most to least verbose.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * A leveled logger. Messages come without the `[braided-react]` prefix;
+ * extra arguments carry structured data (errors, maps, instances).
+ */
+export type Logger = {
+  debug: (message: string, ...args: unknown[]) => void;
+  info: (message: string, ...args: unknown[]) => void;
+  warn: (message: string, ...args: unknown[]) => void;
+  error: (message: string, ...args: unknown[]) => void;
+};
+
+/**
+ * Options for createConsoleLogger().
+ */
+export type ConsoleLoggerOptions = {
+  /** Minimum level to print (default: "warn") */
+  level?: LogLevel;
+  /** Prepended to every message (default: "[braided-react]") */
+  prefix?: string;
+};
+
+const LOG_LEVELS: ReadonlyArray<LogLevel> = ["debug", "info", "warn", "error"];
+
+/**
+ * Create a logger printing to the console.
+ *
+ * The default logger of every manager. Only warnings and errors are printed
+ * unless a lower `level` is passed.
+ *
+ * @param options - Minimum level and prefix
+ * @returns Console logger
+ *
+ * @example
+ * ```typescript
+ * const manager = createSystemManager(config, {
+ *   logger: createConsoleLogger({ level: "debug" }), // Trace every transition
+ * })
+ * ```
+ */
+export function createConsoleLogger(
+  options: ConsoleLoggerOptions = {}
+): Logger {
+  const { level = "warn", prefix = "[braided-react]" } = options;
+  const minimum = LOG_LEVELS.indexOf(level);
+
+  function method(logLevel: LogLevel) {
+    if (LOG_LEVELS.indexOf(logLevel) < minimum) {
+      return () => {};
+    }
+
+    return (message: string, ...args: unknown[]) => {
+      console[logLevel](`${prefix} ${message}`, ...args);
+    };
+  }
+
+  return {
+    debug: method("debug"),
+    info: method("info"),
+    warn: method("warn"),
+    error: method("error"),
+  };
+}
+
+/**
+ * Create a logger discarding every message.
+ *
+ * @returns Silent logger
+ *
+ * @example
+ * ```typescript
+ * // Keep test output clean
+ * const manager = createSystemManager(config, { logger: createSilentLogger() })
+ * ```
+ */
+export function createSilentLogger(): Logger {
+  const noop = () => {};
+  return { debug: noop, info: noop, warn: noop, error: noop };
+}
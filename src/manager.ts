@@ -6,8 +6,226 @@
  * independently of React's lifecycle.
  */
 
-import { startSystem, haltSystem } from "braided";
 import type { SystemConfig, StartedSystem, SystemStartResult } from "braided";
+import {
+  SystemHaltError,
+  SystemStartTimeoutError,
+  SystemStartupError,
+} from "./errors";
+import { createStartup } from "./startup";
+import { collectDependents, createSubsystemConfig } from "./graph";
+import {
+  DEFAULT_HOT_KEY,
+  readHotHandoff,
+  registerHotHandoff,
+} from "./hot";
+import type { HotHandoff, HotModule } from "./hot";
+import type { Startup, StartupObserver } from "./startup";
+import { createProgressTracker } from "./progress";
+import type { StartupProgress, StartupProgressListener } from "./progress";
+import { emptyShutdownResult, haltSystemTimed } from "./shutdown";
+import type { SystemShutdownResult } from "./shutdown";
+import {
+  getRetryDelay,
+  resolveRetryPolicy,
+  shouldRetryStartup,
+} from "./retry";
+import type { RetryPolicy } from "./retry";
+import {
+  createLoggingPlugin,
+  runPluginHook,
+  unwrapSystem,
+  wrapSystem,
+} from "./plugins";
+import type { LifecycleScope, SystemPlugin } from "./plugins";
+import { createConsoleLogger } from "./logger";
+import type { Logger } from "./logger";
+import { createMetricsRecorder } from "./metrics";
+import type { SpanExporter, SystemMetrics } from "./metrics";
+import {
+  fulfilledThenable,
+  rejectedThenable,
+  trackThenable,
+} from "./thenable";
+import type { SystemThenable } from "./thenable";
+
+/**
+ * Lifecycle states of a managed system.
+ *
+ * - idle: Never started
+ * - starting: startSystem() is running
+ * - ready: Started with no errors
+ * - degraded: Started, but some optional resources failed
+ * - failed: Startup threw, or a critical (non-optional) resource failed
+ * - halting: haltSystem() is running
+ * - halted: Halted, the next getSystem() starts a fresh system
+ */
+export type SystemLifecycleStatus =
+  | "idle"
+  | "starting"
+  | "ready"
+  | "degraded"
+  | "failed"
+  | "halting"
+  | "halted";
+
+/**
+ * Immutable snapshot of the manager state.
+ *
+ * A new object is created on every transition, so snapshots can be compared
+ * by reference (e.g. by useSyncExternalStore).
+ */
+export type SystemManagerState<TConfig extends SystemConfig> = {
+  status: SystemLifecycleStatus;
+  system: StartedSystem<TConfig> | null;
+  errors: Map<string, Error> | null; // Per-resource startup errors
+  error: Error | null; // Startup itself threw (e.g. circular dependency)
+  restarting: string[] | null; // Resources restartResource/replaceConfig is halting and starting
+};
+
+/**
+ * Listener notified after every state transition.
+ */
+export type SystemStateListener<TConfig extends SystemConfig> = (
+  state: SystemManagerState<TConfig>,
+  previous: SystemManagerState<TConfig>
+) => void;
+
+/**
+ * Options for createSystemManager().
+ */
+export type SystemManagerOptions<
+  TConfig extends SystemConfig = SystemConfig,
+  TOptional extends keyof TConfig & string = keyof TConfig & string,
+> = {
+  /**
+   * Resources the app can run without. If only optional resources fail,
+   * the system is "degraded" but usable: hooks return it and
+   * useResource() returns undefined for the failed ones. Any other
+   * failure is critical and fails the system.
+   */
+  optional?: ReadonlyArray<TOptional>;
+  /**
+   * Retry startup when resources fail, with exponential backoff.
+   * Disabled by default - a failed startup settles immediately.
+   */
+  retry?: RetryPolicy;
+  /**
+   * Maximum time in ms for a startup, including retries.
+   * On timeout the manager fails with a SystemStartTimeoutError and halts
+   * the resources that already started (best effort).
+   */
+  startTimeoutMs?: number;
+  /**
+   * Hot module API (`import.meta.hot` / `module.hot`) of the module creating
+   * the manager. On a hot update, the running system is handed to the new
+   * manager, only changed resources are restarted (see replaceConfig) and
+   * the old manager is disposed.
+   */
+  hot?: HotModule;
+  /**
+   * Key used in the hot module data (default: "braided-react:manager").
+   * Only needed when one module creates several hot managers.
+   */
+  hotKey?: string;
+  /**
+   * Who owns the system's lifetime.
+   *
+   * - manual (default): the system runs until destroySystem() is called
+   * - refcount: useSystem()/useResource() consumers hold references (see
+   *   acquire()); once the last one is released the system is halted after
+   *   `gracePeriodMs`, unless a consumer mounts again in the meantime
+   */
+  lifecycle?: "manual" | "refcount";
+  /**
+   * Delay in ms before an unreferenced system is halted in "refcount" mode
+   * (default: 1000). Covers StrictMode double-mounts and quick route changes.
+   */
+  gracePeriodMs?: number;
+  /**
+   * Lifecycle plugins (logging, metrics, devtools), called in order.
+   * Defaults to `[createLoggingPlugin(logger)]` - pass your own list to
+   * replace or silence the built-in logging.
+   */
+  plugins?: SystemPlugin[];
+  /**
+   * Where lifecycle messages and plugin failures are logged (default:
+   * console, warnings and errors only). Use createSilentLogger() in tests.
+   */
+  logger?: Logger;
+  /**
+   * Receives an OpenTelemetry-shaped trace for every startup and halt, with
+   * a span per resource. See createInMemorySpanExporter() for tests.
+   */
+  spanExporter?: SpanExporter;
+  /**
+   * Make destroySystem() reject with a SystemHaltError when resources fail
+   * to halt, instead of only logging. Useful in tests and other strict
+   * environments to catch leaked sockets or failed flushes.
+   */
+  rejectOnHaltErrors?: boolean;
+};
+
+/**
+ * Options for getSystem().
+ */
+export type GetSystemOptions = {
+  /**
+   * Abort the startup. The pending getSystem() rejects with the abort reason,
+   * resources that already started are halted and the manager ends up
+   * "halted", so the next getSystem() starts fresh.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Options for restartSystem().
+ */
+export type RestartOptions = {
+  /**
+   * How hooks behave while the fresh system starts.
+   *
+   * - suspend (default): halt first, hooks suspend until the new system is ready
+   * - transition: start the new system first, hooks keep rendering the previous
+   *   instance, then swap atomically and halt the previous instance
+   */
+  mode?: "suspend" | "transition";
+};
+
+/**
+ * Allowed transitions of the lifecycle state machine.
+ *
+ * Settled states may go straight back to "starting" for transition restarts,
+ * and an aborted startup goes straight to "halting".
+ */
+const transitions: Record<SystemLifecycleStatus, SystemLifecycleStatus[]> = {
+  idle: ["starting"],
+  starting: ["ready", "degraded", "failed", "halting"],
+  ready: ["halting", "starting"],
+  degraded: ["halting", "starting"],
+  failed: ["halting", "starting"],
+  halting: ["halted"],
+  halted: ["starting"],
+};
+
+/**
+ * Default grace period before halting an unreferenced system.
+ */
+const DEFAULT_GRACE_PERIOD_MS = 1000;
+
+/**
+ * IDs of the resources that are actually running in a (partial) system.
+ */
+function runningIds(system: Partial<StartedSystem<SystemConfig>>): string[] {
+  return Object.keys(system).filter((id) => system[id] !== undefined);
+}
+
+/**
+ * Normalize a thrown value to an Error.
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
 
 /**
  * Creates a manager for a system that ensures only one instance exists.
@@ -17,6 +235,7 @@ import type { SystemConfig, StartedSystem, SystemStartResult } from "braided";
  * observe the system, they don't control its lifecycle.
  *
  * @param config - The system configuration
+ * @param options - Optional manager behaviour (retry policy, plugins, ...)
  * @returns Manager with getSystem, destroySystem, and getCurrentSystem methods
  *
  * @example
@@ -30,13 +249,366 @@ import type { SystemConfig, StartedSystem, SystemStartResult } from "braided";
  * // When truly done (e.g., user logs out):
  * await gameSystemManager.destroySystem()
  * ```
+ *
+ * @example With retries
+ * ```typescript
+ * const manager = createSystemManager(config, {
+ *   retry: {
+ *     maxAttempts: 5,
+ *     shouldRetry: (error, resourceId) => resourceId === "socket",
+ *   },
+ * })
+ * ```
+ *
+ * @example Keep the system across hot updates (Vite)
+ * ```typescript
+ * export const manager = createSystemManager(config, { hot: import.meta.hot })
+ * ```
  */
-export function createSystemManager<TConfig extends SystemConfig>(
-  config: TConfig
+export function createSystemManager<
+  TConfig extends SystemConfig,
+  TOptional extends keyof TConfig & string = never,
+>(
+  initialConfig: TConfig,
+  options: SystemManagerOptions<TConfig, TOptional> = {}
 ) {
+  let config = initialConfig;
+  const optional: ReadonlyArray<TOptional> = options.optional ?? [];
+  const retryPolicy = options.retry ? resolveRetryPolicy(options.retry) : null;
+  const logger = options.logger ?? createConsoleLogger();
+  const metrics = createMetricsRecorder(() => config, options.spanExporter);
+  const plugins = [
+    metrics.plugin,
+    ...(options.plugins ?? [createLoggingPlugin(logger)]),
+  ];
+  const progress = createProgressTracker(initialConfig);
   let systemPromise: Promise<SystemStartResult<TConfig>> | null = null;
-  let systemInstance: StartedSystem<TConfig> | null = null;
-  let startupErrors: Map<string, Error> | null = null;
+  let haltPromise: Promise<SystemShutdownResult> | null = null;
+  let shutdownErrors: Map<string, Error> | null = null;
+  let thenable: SystemThenable<AvailableSystem<TConfig, TOptional>> | null =
+    null;
+  let currentStartup: Startup<TConfig> | null = null;
+  let abandonPromise: Promise<void> | null = null;
+  let state: SystemManagerState<TConfig> = {
+    status: "idle",
+    system: null,
+    errors: null,
+    error: null,
+    restarting: null,
+  };
+  const listeners = new Set<SystemStateListener<TConfig>>();
+  // Set while systemPromise starts the system from a render - listeners
+  // (other components) must not be notified in the middle of it
+  let deferNotifications = false;
+  let disposed = false;
+  let refCount = 0;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Move the state machine to a new status and notify listeners.
+   */
+  function transition(
+    status: SystemLifecycleStatus,
+    patch: Partial<Omit<SystemManagerState<TConfig>, "status">> = {}
+  ) {
+    if (!transitions[state.status].includes(status)) {
+      throw new Error(
+        `[braided-react] Invalid system state transition: ${state.status} -> ${status}`
+      );
+    }
+
+    const previous = state;
+    // Only a resource restart's "starting" keeps a restart set
+    const next = { ...state, restarting: null, ...patch, status };
+    state = next;
+    // The cached thenable describes the previous state
+    thenable = null;
+
+    const notify = () => {
+      for (const listener of Array.from(listeners)) {
+        listener(next, previous);
+      }
+    };
+    if (deferNotifications) {
+      queueMicrotask(notify);
+    } else {
+      notify();
+    }
+
+    if (status === "ready" || status === "degraded" || status === "failed") {
+      // Nobody may have mounted while it was starting
+      scheduleIdleHalt();
+    }
+  }
+
+  /**
+   * In "refcount" mode, halt the system after the grace period if it is
+   * still unreferenced by then.
+   */
+  function scheduleIdleHalt() {
+    if (
+      options.lifecycle !== "refcount" ||
+      refCount > 0 ||
+      disposed ||
+      idleTimer !== undefined
+    ) {
+      return;
+    }
+
+    idleTimer = setTimeout(() => {
+      idleTimer = undefined;
+      if (refCount === 0) {
+        void haltCurrent();
+      }
+    }, options.gracePeriodMs ?? DEFAULT_GRACE_PERIOD_MS);
+  }
+
+  /**
+   * Cancel a pending idle halt.
+   */
+  function cancelIdleHalt() {
+    clearTimeout(idleTimer);
+    idleTimer = undefined;
+  }
+
+  /**
+   * Derive the settled status from a start result.
+   */
+  function settledStatus(
+    result: SystemStartResult<TConfig>
+  ): SystemLifecycleStatus {
+    if (result.errors.size === 0) {
+      return "ready";
+    }
+
+    return getCriticalErrors(result.errors).size > 0 ? "failed" : "degraded";
+  }
+
+  /**
+   * Keep the errors of critical (non-optional) resources only.
+   *
+   * @param errors - Startup errors
+   * @returns Errors of critical resources
+   */
+  function getCriticalErrors(errors: Map<string, Error>): Map<string, Error> {
+    return new Map(
+      Array.from(errors).filter(
+        ([id]) => !optional.includes(id as TOptional)
+      )
+    );
+  }
+
+  /**
+   * Start the system, retrying failed attempts according to the retry policy.
+   *
+   * Partially started systems are halted before the next attempt.
+   * Resolves with the last attempt's result.
+   */
+  async function startWithRetry(
+    startup: Startup<TConfig>
+  ): Promise<SystemStartResult<TConfig>> {
+    // An abandoned startup keeps running until its current step settles -
+    // it must not touch the progress of the startup that replaced it
+    const isCurrent = () =>
+      startup === currentStartup && !startup.isAbandoned();
+
+    for (let attempt = 1; ; attempt++) {
+      if (!isCurrent()) {
+        return startup.abandoned;
+      }
+
+      progress.reset(config, Object.keys(config));
+      const result = await startup.start();
+      if (!isCurrent()) {
+        return startup.abandoned;
+      }
+      progress.settle(result.errors);
+
+      if (
+        startup.isAbandoned() ||
+        getCriticalErrors(result.errors).size === 0 ||
+        !retryPolicy ||
+        !shouldRetryStartup(retryPolicy, attempt, result.errors)
+      ) {
+        return result;
+      }
+
+      const delay = getRetryDelay(retryPolicy, attempt);
+      runPluginHook(plugins, logger, "onStartRetry", {
+        attempt,
+        errors: result.errors,
+        delayMs: delay,
+      });
+
+      const partial = startup.getStarted();
+      await haltWith("startup", partial, runningIds(partial), () =>
+        startup.haltStarted()
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Report resource starts to plugins and the progress tracker.
+   *
+   * @param resourceIds - Resources being started; others (pinned) are ignored
+   */
+  function observeStartup(resourceIds: string[]): StartupObserver {
+    const ids = new Set(resourceIds);
+
+    return {
+      onResourceStarting: (resourceId) => {
+        if (ids.has(resourceId)) {
+          progress.starting(resourceId);
+        }
+      },
+      onResourceStarted: (resourceId, instance, durationMs) => {
+        if (ids.has(resourceId)) {
+          progress.started(resourceId, durationMs);
+          runPluginHook(plugins, logger, "onResourceStarted", {
+            resourceId,
+            instance,
+            durationMs,
+          });
+        }
+      },
+      onResourceFailed: (resourceId, error, durationMs) => {
+        if (ids.has(resourceId)) {
+          progress.failed(resourceId, toError(error), durationMs);
+          runPluginHook(plugins, logger, "onResourceFailed", {
+            resourceId,
+            error: toError(error),
+            durationMs,
+          });
+        }
+      },
+    };
+  }
+
+  /**
+   * Give up on a pending startup and halt what already started.
+   *
+   * The startup's `abandoned` promise rejects with the reason, which settles
+   * the pending systemPromise right away; halting continues in the background
+   * and the next startup waits for it.
+   */
+  function abandonStartup(startup: Startup<TConfig>, reason: unknown) {
+    if (startup !== currentStartup || startup.isAbandoned()) {
+      return;
+    }
+
+    const partial = startup.getStarted();
+    abandonPromise = haltWith("startup", partial, runningIds(partial), () =>
+      startup.abandon(reason)
+    ).then(() => {
+      abandonPromise = null;
+    });
+  }
+
+  /**
+   * Start a fresh system and settle the state machine with the result.
+   *
+   * @param system - System exposed while starting (the previous one for transition restarts)
+   */
+  function beginStart(
+    system: StartedSystem<TConfig> | null
+  ): Promise<SystemStartResult<TConfig>> {
+    transition("starting", { system, errors: null, error: null });
+
+    const resourceIds = Object.keys(config);
+    runPluginHook(plugins, logger, "onBeforeStart", {
+      scope: "system",
+      config,
+      resourceIds,
+    });
+    const startedAt = performance.now();
+
+    const startup = createStartup(config, observeStartup(resourceIds));
+    currentStartup = startup;
+
+    const { startTimeoutMs } = options;
+    const timer =
+      startTimeoutMs === undefined
+        ? undefined
+        : setTimeout(() => {
+            abandonStartup(startup, new SystemStartTimeoutError(startTimeoutMs));
+          }, startTimeoutMs);
+
+    const pending = abandonPromise ?? Promise.resolve();
+    const promise = Promise.race([
+      pending.then(() => startWithRetry(startup)),
+      startup.abandoned,
+    ]).finally(() => {
+      clearTimeout(timer);
+    });
+
+    // Once settled, the startup no longer owns the running instances
+    const release = () => {
+      if (currentStartup === startup) {
+        currentStartup = null;
+      }
+    };
+
+    systemPromise = promise.then(
+      (result) => {
+        release();
+        const system = wrapSystem(plugins, logger, result.system);
+        runPluginHook(plugins, logger, "onStartComplete", {
+          scope: "system",
+          system,
+          errors: result.errors,
+          resourceIds,
+          durationMs: performance.now() - startedAt,
+        });
+
+        transition(settledStatus(result), {
+          system,
+          errors: result.errors,
+        });
+
+        return { ...result, system };
+      },
+      (error: unknown) => {
+        release();
+        runPluginHook(plugins, logger, "onStartError", {
+          scope: "system",
+          error: toError(error),
+          resourceIds,
+          durationMs: performance.now() - startedAt,
+        });
+
+        if (startup.isAbandoned() && !(error instanceof SystemStartTimeoutError)) {
+          // Aborted - halt whatever was exposed and reset for a fresh start
+          const previous = state.system;
+          transition("halting");
+          systemPromise = null;
+          haltPromise = Promise.all([
+            abandonPromise,
+            previous ? halt(previous) : emptyShutdownResult(),
+          ]).then(([, result]) => {
+            haltPromise = null;
+            transition("halted", { system: null, errors: null, error: null });
+            return result;
+          });
+          throw error;
+        }
+
+        const previous = state.system;
+        if (previous) {
+          // A transition restart failed - the previous instance is no longer exposed
+          void halt(previous);
+        }
+
+        transition("failed", {
+          system: null,
+          error: toError(error),
+        });
+        throw error;
+      }
+    );
+
+    return systemPromise;
+  }
 
   /**
    * Get or start the system. Idempotent - only starts once.
@@ -45,27 +617,46 @@ export function createSystemManager<TConfig extends SystemConfig>(
    * If startup errors occurred, they're logged but the system is still returned
    * (graceful degradation - some resources may be undefined).
    *
+   * If the system is halting, waits for the halt and starts a fresh system.
+   *
+   * Pass an AbortSignal to cancel a pending startup. Aborting cancels the
+   * startup for every caller, not just this one. Resource restarts
+   * (restartResource, replaceConfig) can't be aborted - the signal is ignored.
+   *
+   * @param options - Optional AbortSignal
    * @returns Promise resolving to the started system
+   * @throws SystemStartTimeoutError if startup exceeds `startTimeoutMs`
+   * @throws The signal's abort reason if aborted
    */
-  async function getSystem(): Promise<StartedSystem<TConfig>> {
-    if (!systemPromise) {
-      systemPromise = startSystem(config).then((result) => {
-        systemInstance = result.system;
-        startupErrors = result.errors;
-
-        if (result.errors.size > 0) {
-          console.error(
-            `[braided-react] System startup completed with ${result.errors.size} error(s):`,
-            result.errors
-          );
-        }
+  async function getSystem(
+    options: GetSystemOptions = {}
+  ): Promise<StartedSystem<TConfig>> {
+    assertNotDisposed();
+    const { signal } = options;
+    signal?.throwIfAborted();
 
-        return result;
-      });
+    if (haltPromise) {
+      await haltPromise;
+      signal?.throwIfAborted();
     }
 
-    const result = await systemPromise;
-    return result.system;
+    const promise = systemPromise ?? beginStart(null);
+    // Only a pending full startup can be aborted - resource restarts
+    // ("starting" too) have none
+    const startup = currentStartup;
+
+    if (!signal || !startup || startup.isAbandoned()) {
+      return (await promise).system;
+    }
+
+    const onAbort = () => abandonStartup(startup, signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      return (await promise).system;
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+    }
   }
 
   /**
@@ -76,23 +667,638 @@ export function createSystemManager<TConfig extends SystemConfig>(
    *
    * After calling this, the next call to getSystem() will start a fresh system.
    *
-   * @returns Promise resolving when the system is fully halted
+   * Concurrency:
+   * - Called during startup: waits for the startup to settle, then halts
+   * - Called during a halt: returns the pending halt (one shared promise)
+   * - getSystem() called meanwhile: waits for the halt, then starts fresh
+   *
+   * Halt errors are reported to the plugins (logged by default) and returned
+   * in the result. With `rejectOnHaltErrors`, the promise rejects with a
+   * SystemHaltError instead.
+   *
+   * @returns Promise resolving with halt errors and per-resource durations
+   * @throws SystemHaltError if resources failed to halt and `rejectOnHaltErrors` is set
+   *
+   * @example
+   * ```typescript
+   * const { errors, durations } = await manager.destroySystem()
+   * if (errors.size > 0) reportCleanupFailures(errors)
+   * ```
+   */
+  function destroySystem(): Promise<SystemShutdownResult> {
+    const promise = haltCurrent();
+
+    if (!options.rejectOnHaltErrors) {
+      return promise;
+    }
+
+    return promise.then((result) => {
+      if (result.errors.size > 0) {
+        throw new SystemHaltError(result.errors);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Halt the current system (or the one starting) and reset the manager.
+   *
+   * Never rejects - halt errors are part of the result.
+   */
+  function haltCurrent(): Promise<SystemShutdownResult> {
+    cancelIdleHalt();
+
+    if (disposed) {
+      // The system now belongs to the manager that replaced this one
+      return Promise.resolve(emptyShutdownResult());
+    }
+
+    if (haltPromise) {
+      return haltPromise;
+    }
+
+    if (state.status === "starting" && systemPromise) {
+      const starting = systemPromise;
+      const pendingDestroy: Promise<SystemShutdownResult> = starting
+        .catch(() => {})
+        .then(() => {
+          if (haltPromise === pendingDestroy) {
+            haltPromise = null;
+          }
+          if (state.status === "starting" && systemPromise === starting) {
+            // The startup settled without settling the state - don't spin
+            return emptyShutdownResult();
+          }
+          return haltCurrent();
+        });
+
+      haltPromise = pendingDestroy;
+      return pendingDestroy;
+    }
+
+    if (
+      state.status === "ready" ||
+      state.status === "degraded" ||
+      state.status === "failed"
+    ) {
+      const system = state.system;
+      transition("halting");
+
+      haltPromise = Promise.all([
+        abandonPromise,
+        system ? halt(system) : emptyShutdownResult(),
+      ]).then(([, result]) => {
+        systemPromise = null;
+        haltPromise = null;
+        transition("halted", { system: null, errors: null, error: null });
+        return result;
+      });
+
+      return haltPromise;
+    }
+
+    return Promise.resolve(emptyShutdownResult());
+  }
+
+  /**
+   * Halt a (possibly wrapped) system instance.
+   */
+  async function halt(
+    system: StartedSystem<TConfig>
+  ): Promise<SystemShutdownResult> {
+    const original = unwrapSystem(system);
+    const result = await haltWith(
+      "system",
+      original,
+      runningIds(original),
+      () => haltSystemTimed(config, original)
+    );
+
+    shutdownErrors = result.errors;
+    return result;
+  }
+
+  /**
+   * Run a halt, notifying plugins before and after.
+   *
+   * @param scope - What is being halted
+   * @param system - Original instances being halted
+   * @param resourceIds - IDs of the resources being halted
+   * @param run - Performs the halt
+   * @returns Halt errors and durations of the resources in `resourceIds`
+   */
+  async function haltWith(
+    scope: LifecycleScope,
+    system: Partial<StartedSystem<TConfig>>,
+    resourceIds: string[],
+    run: () => Promise<SystemShutdownResult>
+  ): Promise<SystemShutdownResult> {
+    runPluginHook(plugins, logger, "onBeforeHalt", { scope, system, resourceIds });
+    const startedAt = performance.now();
+
+    const { errors, durations } = await run();
+    // Pinned dependencies are "halted" too, as no-ops
+    const result = {
+      errors,
+      durations: new Map(
+        Array.from(durations).filter(([id]) => resourceIds.includes(id))
+      ),
+    };
+
+    runPluginHook(plugins, logger, "onHaltComplete", {
+      scope,
+      ...result,
+      resourceIds,
+      durationMs: performance.now() - startedAt,
+    });
+
+    return result;
+  }
+
+  /**
+   * Halt the current system and start a fresh one.
+   *
+   * In "suspend" mode (default) the system is halted first, so hooks suspend
+   * until the new system is ready. In "transition" mode the new system is
+   * started while hooks keep rendering the previous instance; once ready it
+   * is swapped in atomically and the previous instance is halted.
+   *
+   * If the system was never started, this simply starts it.
+   *
+   * @param options - Restart options
+   * @returns Promise resolving to the new system
+   *
+   * @example
+   * ```typescript
+   * // Keep the current UI visible while reconnecting
+   * await manager.restartSystem({ mode: "transition" })
+   * ```
+   */
+  async function restartSystem(
+    options: RestartOptions = {}
+  ): Promise<StartedSystem<TConfig>> {
+    assertNotDisposed();
+    const { mode = "suspend" } = options;
+
+    if (
+      mode === "transition" &&
+      systemPromise &&
+      !haltPromise &&
+      state.status !== "starting"
+    ) {
+      const previous = state.system;
+      const result = await beginStart(previous);
+
+      if (previous) {
+        await halt(previous);
+      }
+
+      return result.system;
+    }
+
+    await destroySystem();
+    return getSystem();
+  }
+
+  /**
+   * Halt a subset of the running system and start a (possibly different) subset.
+   *
+   * Resources outside the subsets keep running and are handed to the
+   * restarted resources as dependencies. The state goes through "starting"
+   * while keeping the current system exposed, then settles with a new
+   * system object so hooks re-render.
+   *
+   * Waits for pending startups and restarts to settle first. Rejects if
+   * the system was halted meanwhile (e.g. destroySystem() was called).
+   *
+   * @param haltIds - Resources to halt, in the current config
+   * @param startIds - Resources to start, in the next config
+   * @param nextConfig - Config to switch to (the current one for plain restarts)
    */
-  async function destroySystem(): Promise<void> {
-    if (systemPromise && systemInstance) {
-      const { errors } = await haltSystem(config, systemInstance);
+  async function restartResources(
+    haltIds: Set<string>,
+    startIds: Set<string>,
+    nextConfig: TConfig
+  ): Promise<StartedSystem<TConfig>> {
+    let previousResult = await systemPromise;
+    while (state.status === "starting" && systemPromise) {
+      previousResult = await systemPromise;
+    }
+
+    // No await from here to the "starting" transition - nothing can interleave
+    if (
+      !previousResult ||
+      !state.system ||
+      haltPromise ||
+      (state.status !== "ready" &&
+        state.status !== "degraded" &&
+        state.status !== "failed")
+    ) {
+      throw new Error(
+        "[braided-react] Restart cancelled: the system was halted before it could run"
+      );
+    }
+
+    const current = unwrapSystem(state.system);
+    const haltConfig = createSubsystemConfig(
+      config,
+      haltIds,
+      current,
+      state.errors
+    );
+
+    transition("starting", {
+      system: state.system,
+      restarting: Array.from(new Set([...haltIds, ...startIds])),
+    });
+
+    const promise = (async () => {
+      await haltWith("resources", current, Array.from(haltIds), () =>
+        haltSystemTimed<SystemConfig>(haltConfig, current)
+      );
+
+      const system = { ...current };
+      const errors = new Map(state.errors ?? []);
+      for (const id of Object.keys(current)) {
+        if (haltIds.has(id) || !(id in nextConfig)) {
+          delete system[id];
+          errors.delete(id);
+        }
+      }
+
+      const previousConfig = config;
+      config = nextConfig;
 
-      if (errors.size > 0) {
-        console.error(
-          `[braided-react] System shutdown completed with ${errors.size} error(s):`,
+      const resourceIds = Array.from(startIds);
+      runPluginHook(plugins, logger, "onBeforeStart", {
+        scope: "resources",
+        config,
+        resourceIds,
+      });
+      const startedAt = performance.now();
+
+      try {
+        const startConfig = createSubsystemConfig(
+          config,
+          startIds,
+          system,
+          errors
+        );
+        const startup = createStartup(startConfig, observeStartup(resourceIds));
+        progress.reset(config, resourceIds);
+        const result = await startup.start();
+        progress.settle(result.errors);
+
+        const restartErrors = new Map<string, Error>();
+        for (const id of startIds) {
+          system[id as keyof TConfig] = result.system[id];
+
+          const error = result.errors.get(id);
+          if (error) {
+            errors.set(id, error);
+            restartErrors.set(id, error);
+          }
+        }
+
+        const exposed = wrapSystem(plugins, logger, system);
+        runPluginHook(plugins, logger, "onStartComplete", {
+          scope: "resources",
+          system: exposed,
+          errors: restartErrors,
+          resourceIds,
+          durationMs: performance.now() - startedAt,
+        });
+
+        const merged = { ...previousResult, system: exposed, errors };
+        transition(settledStatus(merged), { system: exposed, errors });
+        return merged;
+      } catch (error) {
+        runPluginHook(plugins, logger, "onStartError", {
+          scope: "resources",
+          error: toError(error),
+          resourceIds,
+          durationMs: performance.now() - startedAt,
+        });
+
+        // The system is no longer exposed - halt the resources that kept
+        // running, with the config they were started from
+        const survivors = new Set(runningIds(system));
+        const survivorConfig = createSubsystemConfig(
+          previousConfig,
+          survivors,
+          system,
           errors
         );
+        const result = await haltWith(
+          "system",
+          system,
+          Array.from(survivors),
+          () => haltSystemTimed<SystemConfig>(survivorConfig, system)
+        );
+        shutdownErrors = result.errors;
+
+        transition("failed", {
+          system: null,
+          error: toError(error),
+        });
+        throw error;
+      }
+    })();
+
+    systemPromise = promise;
+    return (await promise).system;
+  }
+
+  /**
+   * Restart a single resource and everything that depends on it.
+   *
+   * The resource and its dependents are halted in reverse dependency order,
+   * then started again against the running instances of their other
+   * dependencies. Everything else keeps running (and keeps its in-memory state).
+   *
+   * Hooks re-render with the new instances once the restart settles.
+   * If the system isn't started yet, it is started first. Concurrent
+   * restarts run one after the other.
+   *
+   * @param resourceId - The resource to restart
+   * @returns Promise resolving to the updated system
+   * @throws Error if the system is halted before the restart runs
+   *
+   * @example
+   * ```typescript
+   * // The websocket dropped - reconnect it (and its dependents) only
+   * await manager.restartResource("socket")
+   * ```
+   */
+  async function restartResource(
+    resourceId: keyof TConfig
+  ): Promise<StartedSystem<TConfig>> {
+    assertNotDisposed();
+    const id = String(resourceId);
+    if (!(id in config)) {
+      throw new Error(`[braided-react] Unknown resource "${id}"`);
+    }
+
+    await getSystem();
+    const affected = collectDependents(config, [id]);
+    return restartResources(affected, affected, config);
+  }
+
+  /**
+   * Replace the system config, restarting only what changed.
+   *
+   * Resources are compared by reference. Changed, added and removed
+   * resources - plus everything depending on them - are halted and/or
+   * started; unchanged resources keep running with their in-memory state.
+   *
+   * If the system isn't running, the config is swapped and used by the
+   * next startup. A pending startup is awaited first.
+   *
+   * @param nextConfig - The new system configuration
+   * @returns Promise resolving to the updated system, or null if not running
+   *
+   * @example
+   * ```typescript
+   * // Feature flag flipped - swap the analytics implementation
+   * await manager.replaceConfig({ ...config, analytics: noopAnalyticsResource })
+   * ```
+   */
+  async function replaceConfig(
+    nextConfig: TConfig
+  ): Promise<StartedSystem<TConfig> | null> {
+    assertNotDisposed();
+    if (haltPromise) {
+      await haltPromise;
+    }
+
+    if (state.status === "starting") {
+      await systemPromise!.catch(() => {});
+    }
+
+    if (!state.system || haltPromise) {
+      config = nextConfig;
+      return null;
+    }
+
+    const changed = new Set<string>();
+    for (const id of new Set([
+      ...Object.keys(config),
+      ...Object.keys(nextConfig),
+    ])) {
+      if (config[id] !== nextConfig[id]) {
+        changed.add(id);
+      }
+    }
+
+    if (changed.size === 0) {
+      config = nextConfig;
+      return state.system;
+    }
+
+    // Everything depending on a changed resource restarts, in both graphs
+    const haltIds = collectDependents(config, changed);
+    const startIds = collectDependents(nextConfig, [
+      ...changed,
+      ...haltIds,
+    ]);
+    for (const id of startIds) {
+      if (id in config) {
+        haltIds.add(id);
+      }
+    }
+    for (const id of Array.from(haltIds)) {
+      if (!(id in config)) {
+        haltIds.delete(id);
+      }
+    }
+    for (const id of Array.from(startIds)) {
+      if (!(id in nextConfig)) {
+        startIds.delete(id);
+      }
+    }
+
+    return restartResources(haltIds, startIds, nextConfig);
+  }
+
+  /**
+   * Retry a failed or degraded startup with a fresh attempt budget.
+   *
+   * Halts the partially started system and starts a new one.
+   * If the system is healthy (or still starting), this is the same as getSystem().
+   *
+   * @returns Promise resolving to the new system
+   */
+  async function retry(): Promise<StartedSystem<TConfig>> {
+    if (state.status === "degraded" || state.status === "failed") {
+      return restartSystem();
+    }
+
+    return getSystem();
+  }
+
+  /**
+   * Throw if this manager was replaced by a hot update.
+   */
+  function assertNotDisposed() {
+    if (disposed) {
+      throw new Error(
+        "[braided-react] This manager was replaced by a hot update - use the new module's manager"
+      );
+    }
+  }
+
+  /**
+   * Dispose this manager and hand its running system to its replacement.
+   */
+  function handoff(): HotHandoff<TConfig> {
+    disposed = true;
+    listeners.clear();
+    cancelIdleHalt();
+
+    const running =
+      !haltPromise &&
+      systemPromise !== null &&
+      !(state.status === "failed" && !state.system);
+
+    return {
+      config,
+      systemPromise: running ? systemPromise : null,
+      haltPromise,
+    };
+  }
+
+  /**
+   * Take over the system handed off by the previous manager, then diff
+   * its config against ours so only changed resources restart.
+   */
+  function adopt(previous: HotHandoff<TConfig>) {
+    if (previous.haltPromise) {
+      const pendingHalt: Promise<SystemShutdownResult> =
+        previous.haltPromise.then((result) => {
+          if (haltPromise === pendingHalt) {
+            haltPromise = null;
+          }
+          return result;
+        });
+      haltPromise = pendingHalt;
+    }
+
+    if (!previous.systemPromise) {
+      return;
+    }
+
+    config = previous.config;
+    transition("starting");
+
+    systemPromise = previous.systemPromise.then(
+      (result) => {
+        // Re-wrap with this module's plugins
+        const system = wrapSystem(plugins, logger, result.system);
+        transition(settledStatus(result), {
+          system,
+          errors: result.errors,
+        });
+        return { ...result, system };
+      },
+      (error: unknown) => {
+        config = initialConfig;
+        transition("failed", { system: null, error: toError(error) });
+        throw error;
       }
+    );
+
+    // Failures are reflected in the manager state
+    systemPromise.then(() => replaceConfig(initialConfig)).catch(() => {});
+  }
 
-      systemPromise = null;
-      systemInstance = null;
-      startupErrors = null;
+  if (options.hot) {
+    const hotKey = options.hotKey ?? DEFAULT_HOT_KEY;
+    const previous = readHotHandoff<TConfig>(options.hot, hotKey);
+
+    if (previous) {
+      adopt(previous);
     }
+
+    registerHotHandoff(options.hot, hotKey, handoff);
+  }
+
+  /**
+   * Hold a reference to the system.
+   *
+   * In "refcount" mode the system is halted `gracePeriodMs` after the last
+   * reference is released; acquiring again within the grace period keeps
+   * the running instance. useSystem() and useResource() acquire a reference
+   * while mounted. In "manual" mode references are counted but never halt
+   * the system.
+   *
+   * Acquiring does not start the system - use getSystem() for that.
+   *
+   * @returns Release function (idempotent)
+   *
+   * @example
+   * ```typescript
+   * const manager = createSystemManager(config, { lifecycle: "refcount" })
+   *
+   * const release = manager.acquire()
+   * const system = await manager.getSystem()
+   * // ...
+   * release() // Halted after the grace period unless acquired again
+   * ```
+   */
+  function acquire(): () => void {
+    refCount++;
+    cancelIdleHalt();
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+
+      released = true;
+      refCount--;
+      if (state.system) {
+        scheduleIdleHalt();
+      }
+    };
+  }
+
+  /**
+   * Get the number of references currently held (see acquire()).
+   *
+   * @returns The reference count
+   */
+  function getRefCount(): number {
+    return refCount;
+  }
+
+  /**
+   * Get the per-resource progress of the current (or last) startup.
+   *
+   * Resources are listed in dependency order. The same object is returned
+   * until the next update. Partial restarts (restartResource, replaceConfig)
+   * track only the restarted resources.
+   *
+   * @returns The progress snapshot
+   *
+   * @example
+   * ```typescript
+   * const { started, total, current } = manager.getStartupProgress()
+   * console.log(`${started}/${total} - starting ${current}`)
+   * ```
+   */
+  function getStartupProgress(): StartupProgress {
+    return progress.getProgress();
+  }
+
+  /**
+   * Subscribe to startup progress updates.
+   *
+   * @param listener - Called with the new snapshot after every update
+   * @returns Unsubscribe function
+   */
+  function subscribeProgress(listener: StartupProgressListener): () => void {
+    return progress.subscribe(listener);
   }
 
   /**
@@ -104,7 +1310,7 @@ export function createSystemManager<TConfig extends SystemConfig>(
    * @returns The current system instance or null
    */
   function getCurrentSystem(): StartedSystem<TConfig> | null {
-    return systemInstance;
+    return state.system;
   }
 
   /**
@@ -113,7 +1319,7 @@ export function createSystemManager<TConfig extends SystemConfig>(
    * @returns Map of resource IDs to errors, or null if system hasn't started
    */
   function getStartupErrors(): Map<string, Error> | null {
-    return startupErrors;
+    return state.errors;
   }
 
   /**
@@ -122,24 +1328,192 @@ export function createSystemManager<TConfig extends SystemConfig>(
    * @returns true if system is started, false otherwise
    */
   function isStarted(): boolean {
-    return systemInstance !== null;
+    return state.system !== null;
+  }
+
+  /**
+   * Get halt errors from the last time the system was halted.
+   *
+   * @returns Map of resource IDs to errors (empty if the halt was clean), or null if never halted
+   */
+  function getShutdownErrors(): Map<string, Error> | null {
+    return shutdownErrors;
+  }
+
+  /**
+   * Get the thenable for the current state, starting the system if needed.
+   *
+   * Cached until the next transition, so every suspended render sees the
+   * same object.
+   */
+  function getSystemThenable(): SystemThenable<
+    AvailableSystem<TConfig, TOptional>
+  > {
+    thenable ??= createSystemThenable();
+    return thenable;
+  }
+
+  /**
+   * Create a thenable reflecting the current state.
+   *
+   * Settled states are readable synchronously; otherwise the thenable
+   * follows getSystem(). Critical resource failures reject with a
+   * SystemStartupError, like useSystem().
+   *
+   * Hooks read it while rendering, so listeners of the "starting"
+   * transition it triggers are notified in a microtask.
+   */
+  function createSystemThenable(): SystemThenable<
+    AvailableSystem<TConfig, TOptional>
+  > {
+    const current = state.status === "halting" ? null : state.system;
+
+    if (state.status === "failed" && state.error) {
+      return rejectedThenable(state.error);
+    }
+
+    if (current) {
+      const errors = getCriticalErrors(state.errors ?? new Map());
+      return errors.size > 0
+        ? rejectedThenable(new SystemStartupError(errors))
+        : fulfilledThenable(current as AvailableSystem<TConfig, TOptional>);
+    }
+
+    deferNotifications = true;
+    let started: Promise<StartedSystem<TConfig>>;
+    try {
+      started = getSystem();
+    } finally {
+      deferNotifications = false;
+    }
+
+    return trackThenable(
+      started.then((system) => {
+        const errors = getCriticalErrors(getStartupErrors() ?? new Map());
+        if (errors.size > 0) {
+          throw new SystemStartupError(errors);
+        }
+        return system as AvailableSystem<TConfig, TOptional>;
+      })
+    );
+  }
+
+  /**
+   * Get start/halt timings of the last startup and halt.
+   *
+   * @returns Per-resource durations, critical path and wall time
+   *
+   * @example
+   * ```typescript
+   * await manager.getSystem()
+   * const { startup } = manager.getMetrics()
+   * console.log(`Cold start ${startup.wallTimeMs}ms, bottleneck: ${startup.criticalPath.join(" -> ")}`)
+   * ```
+   */
+  function getMetrics(): SystemMetrics {
+    return metrics.getMetrics();
+  }
+
+  /**
+   * Get the current lifecycle state snapshot.
+   *
+   * The same object is returned until the next transition.
+   *
+   * @returns The current state
+   */
+  function getState(): SystemManagerState<TConfig> {
+    return state;
+  }
+
+  /**
+   * Subscribe to lifecycle transitions.
+   *
+   * Works outside React - use it for logging, analytics, or to react to
+   * a destroySystem() triggered elsewhere (e.g. logout).
+   *
+   * @param listener - Called with the new and previous state after every transition
+   * @returns Unsubscribe function
+   */
+  function subscribe(listener: SystemStateListener<TConfig>): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
   }
 
   return {
     getSystem,
     destroySystem,
+    restartSystem,
+    restartResource,
+    retry,
+    replaceConfig,
     getCurrentSystem,
     getStartupErrors,
+    getShutdownErrors,
+    getMetrics,
     isStarted,
-    config, // Expose config for inspection/testing
+    getState,
+    subscribe,
+    acquire,
+    getRefCount,
+    getStartupProgress,
+    subscribeProgress,
+    getCriticalErrors,
+    // Optional resource IDs (see the `optional` option)
+    optional,
+    // Expose config for inspection/testing (reflects replaceConfig)
+    get config() {
+      return config;
+    },
+    /**
+     * Stable, status-tagged promise of the usable system, for React 19 use().
+     *
+     * Reading it starts the system if needed (like getSystem()). The same
+     * object is returned until the lifecycle state changes; it rejects with
+     * the startup error or a SystemStartupError for critical failures.
+     *
+     * @example
+     * ```typescript
+     * function Chat() {
+     *   const system = use(manager.systemPromise)
+     *   return <Messages api={system.api} />
+     * }
+     * ```
+     */
+    get systemPromise() {
+      return getSystemThenable();
+    },
   };
 }
 
+/**
+ * Type of the manager returned by createSystemManager
+ */
+export type SystemManager<
+  TConfig extends SystemConfig,
+  TOptional extends keyof TConfig & string = never,
+> = ReturnType<typeof createSystemManager<TConfig, TOptional>>;
+
 /**
  * Type helper to extract the system type from a manager
  */
-export type ManagedSystem<T> = T extends ReturnType<
-  typeof createSystemManager<infer TConfig extends SystemConfig>
+export type ManagedSystem<T> = T extends SystemManager<
+  infer TConfig extends SystemConfig,
+  infer TOptional
 >
-  ? StartedSystem<TConfig>
+  ? AvailableSystem<TConfig, TOptional>
   : never;
+
+/**
+ * A started system as seen by the app: optional resources may be
+ * undefined (failed to start).
+ */
+export type AvailableSystem<
+  TConfig extends SystemConfig,
+  TOptional extends keyof TConfig = never,
+> = {
+  [K in keyof TConfig]: K extends TOptional
+    ? StartedSystem<TConfig>[K] | undefined
+    : StartedSystem<TConfig>[K];
+};
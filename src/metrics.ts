@@ -0,0 +1,301 @@
+/**
+ * Metrics - Startup and halt timings
+ *
+ * Records how long each resource took to start and halt, the dependency
+ * critical path and total wall time, and emits them as OpenTelemetry-shaped
+ * spans through a pluggable exporter (no tracing SDK required).
+ */
+
+import type { SystemConfig } from "braided";
+import { findCriticalPath } from "./graph";
+import type { LifecycleScope, SystemPlugin } from "./plugins";
+
+/**
+ * Timings of the last startup.
+ */
+export type StartupMetrics = {
+  scope: LifecycleScope;
+  wallTimeMs: number; // From getSystem() (or a restart) to settled, retries included
+  durations: Map<string, number>; // start() duration by resource, last attempt
+  criticalPath: string[]; // Slowest dependency chain, dependencies first
+  criticalPathMs: number;
+  errors: Map<string, Error>; // Empty if every resource started
+};
+
+/**
+ * Timings of the last halt (cleanup of partial startups excluded).
+ */
+export type ShutdownMetrics = {
+  scope: LifecycleScope;
+  wallTimeMs: number;
+  durations: Map<string, number>; // halt() duration by resource
+  errors: Map<string, Error>;
+};
+
+/**
+ * Snapshot returned by manager.getMetrics().
+ */
+export type SystemMetrics = {
+  startup: StartupMetrics | null; // null until a startup settled
+  shutdown: ShutdownMetrics | null; // null until a halt completed
+};
+
+/**
+ * A finished span, shaped like an OpenTelemetry ReadableSpan.
+ *
+ * Times are epoch milliseconds. Each startup or halt is one trace: a root
+ * span (`braided.startup` / `braided.shutdown`) with a child span per
+ * resource (`braided.resource.start` / `braided.resource.halt`).
+ */
+export type Span = {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  startTime: number;
+  endTime: number;
+  attributes: Record<string, string | number | boolean | string[]>;
+  status: { code: "OK" | "ERROR"; message?: string };
+};
+
+/**
+ * Receives finished spans, one trace per call.
+ */
+export type SpanExporter = {
+  export: (spans: Span[]) => void;
+};
+
+/**
+ * Create an exporter keeping spans in memory, for tests and devtools.
+ *
+ * @returns Exporter with getFinishedSpans() and reset()
+ *
+ * @example
+ * ```typescript
+ * const exporter = createInMemorySpanExporter()
+ * const manager = createSystemManager(config, { spanExporter: exporter })
+ *
+ * await manager.getSystem()
+ * exporter.getFinishedSpans() // [braided.startup, braided.resource.start, ...]
+ * ```
+ */
+export function createInMemorySpanExporter() {
+  let spans: Span[] = [];
+
+  return {
+    export: (finished: Span[]) => {
+      spans = [...spans, ...finished];
+    },
+    getFinishedSpans: (): Span[] => spans,
+    reset: () => {
+      spans = [];
+    },
+  };
+}
+
+/**
+ * Random lowercase hex ID with the given number of bytes.
+ */
+function randomId(bytes: number): string {
+  let id = "";
+  for (let i = 0; i < bytes; i++) {
+    id += Math.floor(Math.random() * 256)
+      .toString(16)
+      .padStart(2, "0");
+  }
+  return id;
+}
+
+/**
+ * Convert a performance.now() timestamp to epoch milliseconds.
+ */
+function toEpoch(time: number): number {
+  return performance.timeOrigin + time;
+}
+
+/**
+ * Describe an errors map for a span status.
+ */
+function errorStatus(errors: Map<string, Error>): Span["status"] {
+  if (errors.size === 0) {
+    return { code: "OK" };
+  }
+
+  const message = Array.from(errors)
+    .map(([id, error]) => `${id}: ${error.message}`)
+    .join(", ");
+  return { code: "ERROR", message };
+}
+
+type ResourceTiming = { startedAt: number; durationMs: number; error?: Error };
+
+/**
+ * Create the manager's metrics recorder.
+ *
+ * Metrics are collected by a plugin fed by the manager's lifecycle events.
+ *
+ * @param getConfig - Returns the manager's current config (for dependencies)
+ * @param exporter - Receives a trace per startup and halt, if given
+ * @returns The recording plugin and getMetrics()
+ */
+export function createMetricsRecorder(
+  getConfig: () => SystemConfig,
+  exporter?: SpanExporter
+) {
+  let metrics: SystemMetrics = { startup: null, shutdown: null };
+  // Resources timed during the current startup attempt
+  let timings = new Map<string, ResourceTiming>();
+
+  function exportTrace(
+    root: Omit<Span, "traceId" | "spanId" | "parentSpanId">,
+    children: Array<Omit<Span, "traceId" | "spanId" | "parentSpanId">>
+  ) {
+    if (!exporter) {
+      return;
+    }
+
+    const traceId = randomId(16);
+    const rootSpan: Span = {
+      ...root,
+      traceId,
+      spanId: randomId(8),
+      parentSpanId: null,
+    };
+
+    exporter.export([
+      rootSpan,
+      ...children.map(
+        (child): Span => ({
+          ...child,
+          traceId,
+          spanId: randomId(8),
+          parentSpanId: rootSpan.spanId,
+        })
+      ),
+    ]);
+  }
+
+  function recordStartup(
+    scope: LifecycleScope,
+    wallTimeMs: number,
+    errors: Map<string, Error>,
+    error?: Error
+  ) {
+    const durations = new Map(
+      Array.from(timings, ([id, timing]) => [id, timing.durationMs])
+    );
+    const critical = findCriticalPath(getConfig(), durations);
+    const now = performance.now();
+
+    metrics = {
+      ...metrics,
+      startup: {
+        scope,
+        wallTimeMs,
+        durations,
+        criticalPath: critical.path,
+        criticalPathMs: critical.durationMs,
+        errors,
+      },
+    };
+
+    exportTrace(
+      {
+        name: "braided.startup",
+        startTime: toEpoch(now - wallTimeMs),
+        endTime: toEpoch(now),
+        attributes: {
+          "braided.scope": scope,
+          "braided.resource_count": durations.size,
+          "braided.critical_path": critical.path,
+          "braided.critical_path_ms": critical.durationMs,
+        },
+        status: error
+          ? { code: "ERROR", message: error.message }
+          : errorStatus(errors),
+      },
+      Array.from(timings, ([id, timing]) => ({
+        name: "braided.resource.start",
+        startTime: toEpoch(timing.startedAt),
+        endTime: toEpoch(timing.startedAt + timing.durationMs),
+        attributes: { "braided.resource.id": id },
+        status: timing.error
+          ? { code: "ERROR", message: timing.error.message }
+          : { code: "OK" },
+      }))
+    );
+  }
+
+  const plugin: SystemPlugin = {
+    name: "braided-react:metrics",
+    onBeforeStart: () => {
+      timings = new Map();
+    },
+    onResourceStarted: ({ resourceId, durationMs }) => {
+      timings.set(resourceId, {
+        startedAt: performance.now() - durationMs,
+        durationMs,
+      });
+    },
+    onResourceFailed: ({ resourceId, error, durationMs }) => {
+      timings.set(resourceId, {
+        startedAt: performance.now() - durationMs,
+        durationMs,
+        error,
+      });
+    },
+    onStartRetry: () => {
+      timings = new Map();
+    },
+    onStartComplete: ({ scope, errors, durationMs }) => {
+      recordStartup(scope, durationMs, errors);
+    },
+    onStartError: ({ scope, error, durationMs }) => {
+      recordStartup(scope, durationMs, new Map(), error);
+    },
+    onHaltComplete: ({ scope, errors, durations, durationMs }) => {
+      if (scope !== "startup") {
+        // Cleanup between retries is part of the startup, not a shutdown
+        metrics = {
+          ...metrics,
+          shutdown: { scope, wallTimeMs: durationMs, durations, errors },
+        };
+      }
+
+      // Halts run one at a time, so children are laid out in halt order
+      const endTime = performance.now();
+      let cursor = endTime - durationMs;
+      exportTrace(
+        {
+          name: "braided.shutdown",
+          startTime: toEpoch(cursor),
+          endTime: toEpoch(endTime),
+          attributes: {
+            "braided.scope": scope,
+            "braided.resource_count": durations.size,
+          },
+          status: errorStatus(errors),
+        },
+        Array.from(durations, ([id, haltMs]) => {
+          const startTime = cursor;
+          cursor += haltMs;
+          const error = errors.get(id);
+          return {
+            name: "braided.resource.halt",
+            startTime: toEpoch(startTime),
+            endTime: toEpoch(cursor),
+            attributes: { "braided.resource.id": id },
+            status: error
+              ? { code: "ERROR" as const, message: error.message }
+              : { code: "OK" as const },
+          };
+        })
+      );
+    },
+  };
+
+  return {
+    plugin,
+    getMetrics: (): SystemMetrics => metrics,
+  };
+}
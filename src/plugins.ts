@@ -0,0 +1,266 @@
+/**
+ * Plugins - Hook into the manager lifecycle
+ *
+ * Plugins observe startups and halts (logging, metrics, devtools) and can
+ * wrap the started system before it is exposed. The manager's built-in
+ * console logging is itself a plugin, so it can be replaced.
+ */
+
+import type { SystemConfig, StartedSystem } from "braided";
+import { createConsoleLogger } from "./logger";
+import type { Logger } from "./logger";
+
+/**
+ * What a lifecycle event applies to.
+ *
+ * - system: the whole system (getSystem, destroySystem, restartSystem)
+ * - resources: a subset (restartResource, replaceConfig)
+ * - startup: cleanup of a partial startup (between retries, after abort/timeout)
+ */
+export type LifecycleScope = "system" | "resources" | "startup";
+
+/**
+ * Fired before a startup begins (once, not per retry attempt).
+ */
+export type BeforeStartEvent<TConfig extends SystemConfig> = {
+  scope: LifecycleScope;
+  config: TConfig;
+  resourceIds: string[]; // Resources about to start
+};
+
+/**
+ * Fired when a single resource finished starting.
+ */
+export type ResourceStartedEvent = {
+  resourceId: string;
+  instance: unknown;
+  durationMs: number;
+};
+
+/**
+ * Fired when a single resource's start() threw.
+ */
+export type ResourceFailedEvent = {
+  resourceId: string;
+  error: Error;
+  durationMs: number;
+};
+
+/**
+ * Fired when a failed attempt is about to be retried.
+ */
+export type StartRetryEvent = {
+  attempt: number; // The attempt that failed (1-based)
+  errors: Map<string, Error>;
+  delayMs: number;
+};
+
+/**
+ * Fired when a startup settled with a system (possibly with resource errors).
+ */
+export type StartCompleteEvent<TConfig extends SystemConfig> = {
+  scope: LifecycleScope;
+  system: StartedSystem<TConfig>;
+  errors: Map<string, Error>; // Errors of the started resources only
+  resourceIds: string[];
+  durationMs: number;
+};
+
+/**
+ * Fired when a startup threw, timed out or was aborted.
+ */
+export type StartErrorEvent = {
+  scope: LifecycleScope;
+  error: Error;
+  resourceIds: string[];
+  durationMs: number;
+};
+
+/**
+ * Fired before resources are halted.
+ */
+export type BeforeHaltEvent<TConfig extends SystemConfig> = {
+  scope: LifecycleScope;
+  system: Partial<StartedSystem<TConfig>>; // Unwrapped instances
+  resourceIds: string[]; // Resources about to halt
+};
+
+/**
+ * Fired once resources are halted.
+ */
+export type HaltCompleteEvent = {
+  scope: LifecycleScope;
+  errors: Map<string, Error>;
+  durations: Map<string, number>; // Per-resource halt durations
+  resourceIds: string[];
+  durationMs: number;
+};
+
+/**
+ * A manager plugin. Every hook is optional.
+ *
+ * Hooks are called synchronously, in plugin order. A throwing hook is
+ * logged and doesn't affect the lifecycle or other plugins.
+ */
+export type SystemPlugin<TConfig extends SystemConfig = SystemConfig> = {
+  name: string;
+  onBeforeStart?: (event: BeforeStartEvent<TConfig>) => void;
+  onResourceStarted?: (event: ResourceStartedEvent) => void;
+  onResourceFailed?: (event: ResourceFailedEvent) => void;
+  onStartRetry?: (event: StartRetryEvent) => void;
+  onStartComplete?: (event: StartCompleteEvent<TConfig>) => void;
+  onStartError?: (event: StartErrorEvent) => void;
+  onBeforeHalt?: (event: BeforeHaltEvent<TConfig>) => void;
+  onHaltComplete?: (event: HaltCompleteEvent) => void;
+  /**
+   * Wrap the started system before it is exposed (getSystem, hooks).
+   * Halting always uses the original instances. If it throws, the error is
+   * logged and the system is exposed without this plugin's wrapper.
+   */
+  wrapSystem?: (system: StartedSystem<TConfig>) => StartedSystem<TConfig>;
+};
+
+/**
+ * Names of the plugin event hooks.
+ */
+export type PluginHook = Exclude<keyof SystemPlugin, "name" | "wrapSystem">;
+
+/**
+ * Built-in logging of the lifecycle.
+ *
+ * Startup and shutdown errors are logged as errors, retries as warnings,
+ * and every transition (start, resource started, halt) at debug level.
+ *
+ * Used by default (with the manager's `logger`) when no `plugins` option is
+ * passed. Include it in your own plugin list to keep the logs, or leave it
+ * out to silence them.
+ *
+ * @param logger - Where to log (default: console, warnings and errors only)
+ * @returns Logging plugin
+ *
+ * @example
+ * ```typescript
+ * const manager = createSystemManager(config, {
+ *   plugins: [createLoggingPlugin(appLogger), metricsPlugin],
+ * })
+ * ```
+ */
+export function createLoggingPlugin(
+  logger: Logger = createConsoleLogger()
+): SystemPlugin {
+  return {
+    name: "braided-react:logging",
+    onBeforeStart: ({ scope, resourceIds }) => {
+      const subject = scope === "resources" ? "Restarting" : "Starting";
+      logger.debug(`${subject} resources: ${resourceIds.join(", ")}`);
+    },
+    onResourceStarted: ({ resourceId, durationMs }) => {
+      logger.debug(
+        `Resource "${resourceId}" started in ${Math.round(durationMs)}ms`
+      );
+    },
+    onStartRetry: ({ attempt, errors, delayMs }) => {
+      logger.warn(
+        `System startup attempt ${attempt} failed with ${errors.size} error(s), retrying in ${Math.round(delayMs)}ms:`,
+        errors
+      );
+    },
+    onStartComplete: ({ scope, errors, durationMs }) => {
+      const subject = scope === "resources" ? "Resource restart" : "System startup";
+      if (errors.size > 0) {
+        logger.error(
+          `${subject} completed with ${errors.size} error(s):`,
+          errors
+        );
+      } else {
+        logger.debug(`${subject} completed in ${Math.round(durationMs)}ms`);
+      }
+    },
+    onBeforeHalt: ({ resourceIds }) => {
+      logger.debug(`Halting resources: ${resourceIds.join(", ")}`);
+    },
+    onHaltComplete: ({ errors, durationMs }) => {
+      if (errors.size > 0) {
+        logger.error(
+          `System shutdown completed with ${errors.size} error(s):`,
+          errors
+        );
+      } else {
+        logger.debug(`Shutdown completed in ${Math.round(durationMs)}ms`);
+      }
+    },
+  };
+}
+
+/**
+ * Call a hook on every plugin, isolating plugin failures.
+ *
+ * @param plugins - The manager's plugins
+ * @param logger - Logs plugin failures
+ * @param hook - Hook name
+ * @param event - Event passed to the hook
+ */
+export function runPluginHook<K extends PluginHook>(
+  plugins: ReadonlyArray<SystemPlugin<any>>,
+  logger: Logger,
+  hook: K,
+  event: Parameters<NonNullable<SystemPlugin<any>[K]>>[0]
+) {
+  for (const plugin of plugins) {
+    try {
+      (plugin[hook] as ((event: unknown) => void) | undefined)?.(event);
+    } catch (error) {
+      logger.error(`Plugin "${plugin.name}" failed in ${hook}:`, error);
+    }
+  }
+}
+
+// Wrapped system -> original system, shared across managers (hot handoff)
+const originalSystems = new WeakMap<object, object>();
+
+/**
+ * Apply the plugins' wrapSystem in order, isolating plugin failures.
+ *
+ * @param plugins - The manager's plugins
+ * @param logger - Logs plugin failures
+ * @param system - The started system (original or already wrapped)
+ * @returns The system to expose
+ */
+export function wrapSystem<TConfig extends SystemConfig>(
+  plugins: ReadonlyArray<SystemPlugin<any>>,
+  logger: Logger,
+  system: StartedSystem<TConfig>
+): StartedSystem<TConfig> {
+  const original = unwrapSystem(system);
+  let wrapped = original;
+
+  for (const plugin of plugins) {
+    if (!plugin.wrapSystem) {
+      continue;
+    }
+
+    try {
+      wrapped = plugin.wrapSystem(wrapped);
+    } catch (error) {
+      logger.error(`Plugin "${plugin.name}" failed in wrapSystem:`, error);
+    }
+  }
+
+  if (wrapped !== original) {
+    originalSystems.set(wrapped, original);
+  }
+
+  return wrapped;
+}
+
+/**
+ * Get the original system behind a wrapped one.
+ *
+ * @param system - A system returned by wrapSystem (or an original)
+ * @returns The original system
+ */
+export function unwrapSystem<TConfig extends SystemConfig>(
+  system: StartedSystem<TConfig>
+): StartedSystem<TConfig> {
+  return (originalSystems.get(system) as StartedSystem<TConfig>) ?? system;
+}
@@ -0,0 +1,175 @@
+/**
+ * Startup Progress - Per-resource startup tracking
+ *
+ * Tracks which resources are pending, starting, started or failed during a
+ * startup, in dependency order, so loading screens can show real progress.
+ */
+
+import { topologicalSort } from "braided";
+import type { SystemConfig } from "braided";
+
+/**
+ * Startup status of a single resource.
+ *
+ * - pending: Waiting for its turn (or its dependencies)
+ * - starting: start() is running
+ * - started: start() resolved
+ * - failed: start() threw, or it was skipped because a dependency failed
+ */
+export type ResourceStartStatus = "pending" | "starting" | "started" | "failed";
+
+/**
+ * Progress of a single resource.
+ */
+export type ResourceProgress = {
+  id: string;
+  status: ResourceStartStatus;
+  startedAt: number | null; // performance.now() when start() was called
+  durationMs: number | null; // Set once started or failed
+  error: Error | null;
+};
+
+/**
+ * Immutable snapshot of the startup progress.
+ */
+export type StartupProgress = {
+  total: number; // Resources in this startup
+  started: number; // Resources started so far
+  current: string | null; // Resource starting right now
+  resources: ResourceProgress[]; // In dependency order
+};
+
+/**
+ * Listener notified after every progress update.
+ */
+export type StartupProgressListener = (progress: StartupProgress) => void;
+
+/**
+ * Order resource IDs by dependency, falling back to config order when the
+ * graph is invalid (startup will fail with the real error).
+ */
+function dependencyOrder(config: SystemConfig, ids: string[]): string[] {
+  try {
+    const resources = config as Parameters<typeof topologicalSort>[0];
+    return topologicalSort(resources).filter((id) => ids.includes(id));
+  } catch {
+    return ids;
+  }
+}
+
+/**
+ * Create a progress snapshot with every resource pending.
+ */
+function pendingProgress(config: SystemConfig, ids: string[]): StartupProgress {
+  const resources = dependencyOrder(config, ids).map(
+    (id): ResourceProgress => ({
+      id,
+      status: "pending",
+      startedAt: null,
+      durationMs: null,
+      error: null,
+    })
+  );
+
+  return { total: resources.length, started: 0, current: null, resources };
+}
+
+/**
+ * Create a tracker for startup progress.
+ *
+ * @param config - The initial system configuration
+ * @returns Tracker with update methods, getProgress and subscribe
+ */
+export function createProgressTracker(config: SystemConfig) {
+  let progress = pendingProgress(config, Object.keys(config));
+  const listeners = new Set<StartupProgressListener>();
+
+  /**
+   * Replace a resource's progress and notify listeners.
+   */
+  function update(id: string, patch: Partial<ResourceProgress>) {
+    if (!progress.resources.some((resource) => resource.id === id)) {
+      return;
+    }
+
+    const resources = progress.resources.map((resource) =>
+      resource.id === id ? { ...resource, ...patch } : resource
+    );
+    const current =
+      resources.find((resource) => resource.status === "starting")?.id ?? null;
+
+    const started = resources.filter(
+      (resource) => resource.status === "started"
+    ).length;
+
+    progress = { total: resources.length, started, current, resources };
+    notify();
+  }
+
+  /**
+   * Notify listeners of the current snapshot.
+   */
+  function notify() {
+    for (const listener of Array.from(listeners)) {
+      listener(progress);
+    }
+  }
+
+  /**
+   * Start tracking a new attempt: every resource in `ids` is pending.
+   *
+   * @param nextConfig - The config being started
+   * @param ids - Resources being started
+   */
+  function reset(nextConfig: SystemConfig, ids: string[]) {
+    progress = pendingProgress(nextConfig, ids);
+    notify();
+  }
+
+  function starting(id: string) {
+    update(id, {
+      status: "starting",
+      startedAt: performance.now(),
+      durationMs: null,
+      error: null,
+    });
+  }
+
+  function started(id: string, durationMs: number) {
+    update(id, { status: "started", durationMs });
+  }
+
+  function failed(id: string, error: Error, durationMs: number | null) {
+    update(id, { status: "failed", durationMs, error });
+  }
+
+  /**
+   * Mark resources that never reached start() (skipped because a
+   * dependency failed) as failed once the attempt is over.
+   *
+   * @param errors - The attempt's startup errors
+   */
+  function settle(errors: Map<string, Error>) {
+    for (const resource of progress.resources) {
+      const error = errors.get(resource.id);
+      if (error && resource.status !== "failed") {
+        failed(resource.id, error, null);
+      }
+    }
+  }
+
+  return {
+    reset,
+    starting,
+    started,
+    failed,
+    settle,
+    getProgress: () => progress,
+    subscribe: (listener: StartupProgressListener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Retry Policy - Startup retries with exponential backoff
+ *
+ * Used by the system manager to retry startup when resources fail.
+ * Each attempt starts a complete fresh system; partially started
+ * systems are halted before the next attempt.
+ */
+
+import { isSkippedResourceError } from "./errors";
+
+/**
+ * Retry policy for system startup.
+ */
+export type RetryPolicy = {
+  /** Total number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in ms (default: 200) */
+  initialDelayMs?: number;
+  /** Upper bound for the delay in ms (default: 5000) */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each attempt (default: 2) */
+  factor?: number;
+  /** Randomize each delay between 50% and 100% of its value (default: true) */
+  jitter?: boolean;
+  /**
+   * Decide whether a resource error is worth retrying (default: always).
+   * A failed attempt is retried only if every error is retryable. Only
+   * resources whose start() threw are checked - dependents skipped because
+   * of them are not.
+   */
+  shouldRetry?: (error: Error, resourceId: string) => boolean;
+};
+
+/**
+ * Retry policy with all defaults applied.
+ */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/**
+ * Apply defaults to a retry policy.
+ *
+ * @param policy - Partial policy from the manager options
+ * @returns Policy with every field set
+ */
+export function resolveRetryPolicy(policy: RetryPolicy): ResolvedRetryPolicy {
+  return {
+    maxAttempts: policy.maxAttempts ?? 3,
+    initialDelayMs: policy.initialDelayMs ?? 200,
+    maxDelayMs: policy.maxDelayMs ?? 5000,
+    factor: policy.factor ?? 2,
+    jitter: policy.jitter ?? true,
+    shouldRetry: policy.shouldRetry ?? (() => true),
+  };
+}
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @returns Delay in ms
+ */
+export function getRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number
+): number {
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.factor, attempt - 1)
+  );
+
+  return policy.jitter ? delay * (0.5 + Math.random() / 2) : delay;
+}
+
+/**
+ * Check whether a failed attempt should be retried.
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @param errors - Resource errors of that attempt
+ * @returns true if another attempt should be made
+ */
+export function shouldRetryStartup(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  errors: Map<string, Error>
+): boolean {
+  if (attempt >= policy.maxAttempts) {
+    return false;
+  }
+
+  // Skipped dependents fail with braided's "Missing required dependencies"
+  const failures = Array.from(errors.entries()).filter(
+    ([, error]) => !isSkippedResourceError(error)
+  );
+
+  return failures.every(([id, error]) => policy.shouldRetry(error, id));
+}
@@ -0,0 +1,63 @@
+/**
+ * Shutdown - Timed system halt
+ *
+ * Halts a system through braided while measuring how long each resource's
+ * halt() took, so cleanup problems can be reported and asserted.
+ */
+
+import { haltSystem } from "braided";
+import type { SystemConfig, StartedSystem } from "braided";
+
+/**
+ * Result of halting a system.
+ */
+export type SystemShutdownResult = {
+  /** Halt errors by resource ID */
+  errors: Map<string, Error>;
+  /** Halt duration in ms by resource ID, for every resource halted */
+  durations: Map<string, number>;
+};
+
+/**
+ * Create an empty shutdown result (nothing was halted).
+ *
+ * @returns Result without errors or durations
+ */
+export function emptyShutdownResult(): SystemShutdownResult {
+  return { errors: new Map(), durations: new Map() };
+}
+
+/**
+ * Halt a system in reverse dependency order, timing each resource.
+ *
+ * @param config - The system configuration
+ * @param system - The started (possibly partial) system
+ * @returns Halt errors and per-resource durations
+ */
+export async function haltSystemTimed<TConfig extends SystemConfig>(
+  config: TConfig,
+  system: Partial<StartedSystem<TConfig>>
+): Promise<SystemShutdownResult> {
+  const durations = new Map<string, number>();
+  const timed: SystemConfig = {};
+
+  for (const [id, resource] of Object.entries(config)) {
+    timed[id] = {
+      ...resource,
+      halt: async (instance: unknown) => {
+        const startedAt = performance.now();
+        try {
+          await resource.halt(instance);
+        } finally {
+          durations.set(id, performance.now() - startedAt);
+        }
+      },
+    };
+  }
+
+  const { errors } = await haltSystem(
+    timed,
+    system as StartedSystem<SystemConfig>
+  );
+  return { errors, durations };
+}
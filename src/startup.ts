@@ -0,0 +1,141 @@
+/**
+ * Startup - Abandonable system startup
+ *
+ * Wraps every resource of a config so the manager can give up on a startup
+ * (timeout, AbortSignal) and halt the resources that already started,
+ * while still delegating ordering and dependency resolution to braided.
+ */
+
+import { startSystem } from "braided";
+import type { SystemConfig, StartedSystem, SystemStartResult } from "braided";
+import { haltSystemTimed } from "./shutdown";
+import type { SystemShutdownResult } from "./shutdown";
+
+/**
+ * A single startup of a system config, possibly spanning several attempts.
+ */
+export type Startup<TConfig extends SystemConfig> = {
+  /** Run one start attempt */
+  start: () => Promise<SystemStartResult<TConfig>>;
+  /** Resources started by the current attempt (none once an attempt fully succeeded) */
+  getStarted: () => Partial<StartedSystem<TConfig>>;
+  /** Halt resources started by the current attempt and forget them. */
+  haltStarted: () => Promise<SystemShutdownResult>;
+  /** Give up: reject `abandoned` and halt started resources. */
+  abandon: (reason: unknown) => Promise<SystemShutdownResult>;
+  /** Whether abandon() was called */
+  isAbandoned: () => boolean;
+  /** Rejects with the abandon reason once abandon() is called */
+  abandoned: Promise<never>;
+};
+
+/**
+ * Callbacks for instrumenting a startup.
+ */
+export type StartupObserver = {
+  /** A resource's start() is about to be called */
+  onResourceStarting?: (id: string) => void;
+  /** A resource's start() resolved */
+  onResourceStarted?: (id: string, instance: unknown, durationMs: number) => void;
+  /** A resource's start() threw */
+  onResourceFailed?: (id: string, error: unknown, durationMs: number) => void;
+};
+
+/**
+ * Create an abandonable startup for a system config.
+ *
+ * Once abandoned, resources whose start() is still running are halted as
+ * soon as they resolve, resources that haven't started yet are skipped, and
+ * the observer is no longer notified.
+ *
+ * @param config - The system configuration
+ * @param observer - Optional instrumentation callbacks
+ * @returns Startup controller
+ */
+export function createStartup<TConfig extends SystemConfig>(
+  config: TConfig,
+  observer: StartupObserver = {}
+): Startup<TConfig> {
+  let abandoned = false;
+  let started: Partial<Record<keyof TConfig, unknown>> = {};
+  let rejectAbandoned: (reason: unknown) => void = () => {};
+
+  const abandonedPromise = new Promise<never>((_, reject) => {
+    rejectAbandoned = reject;
+  });
+  // Only observed while a startup is pending
+  abandonedPromise.catch(() => {});
+
+  const wrapped: SystemConfig = {};
+  for (const [id, resource] of Object.entries(config)) {
+    wrapped[id] = {
+      ...resource,
+      start: async (deps: unknown) => {
+        if (abandoned) {
+          throw new Error(`Startup abandoned before "${id}" started`);
+        }
+
+        observer.onResourceStarting?.(id);
+        const startedAt = performance.now();
+        let instance: unknown;
+        try {
+          instance = await resource.start(deps);
+        } catch (error) {
+          if (!abandoned) {
+            observer.onResourceFailed?.(
+              id,
+              error,
+              performance.now() - startedAt
+            );
+          }
+          throw error;
+        }
+
+        if (abandoned) {
+          await resource.halt(instance);
+          throw new Error(`Startup abandoned while "${id}" was starting`);
+        }
+
+        started[id as keyof TConfig] = instance;
+        observer.onResourceStarted?.(
+          id,
+          instance,
+          performance.now() - startedAt
+        );
+        return instance;
+      },
+    };
+  }
+
+  async function start(): Promise<SystemStartResult<TConfig>> {
+    started = {};
+    const result = await startSystem(wrapped as TConfig);
+    if (result.errors.size === 0) {
+      // The instances now belong to the running system - halting them is
+      // the manager's job, not this startup's
+      started = {};
+    }
+    return result;
+  }
+
+  function haltStarted(): Promise<SystemShutdownResult> {
+    const system = started as StartedSystem<TConfig>;
+    started = {};
+    return haltSystemTimed(config, system);
+  }
+
+  function abandon(reason: unknown): Promise<SystemShutdownResult> {
+    abandoned = true;
+    rejectAbandoned(reason);
+    return haltStarted();
+  }
+
+  return {
+    start,
+    getStarted: () => started as Partial<StartedSystem<TConfig>>,
+    haltStarted,
+    abandon,
+    isAbandoned: () => abandoned,
+    abandoned: abandonedPromise,
+  };
+}
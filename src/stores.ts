@@ -0,0 +1,101 @@
+/**
+ * Store Resources - Zustand, Redux and other state stores as resources
+ *
+ * State stores share a `subscribe` / `getState` contract. Defining them as
+ * resources gives every system its own store instance, and
+ * useResourceStore() binds components to whichever instance is current.
+ */
+
+import { defineResource } from "braided";
+import type { ResourceConfig } from "braided";
+
+/**
+ * A state store: Zustand (vanilla stores and `create()` hooks), Redux, or
+ * anything with `subscribe(listener) => unsubscribe` and `getState()`.
+ */
+export type StateStore<TState = unknown> = {
+  subscribe: (listener: () => void) => () => void;
+  getState: () => TState;
+};
+
+/**
+ * Check whether a value is a state store.
+ *
+ * Functions count too - Zustand's `create()` returns a hook carrying the
+ * store API.
+ *
+ * @param value - Any value
+ * @returns true if it has subscribe() and getState()
+ */
+export function isStateStore(value: unknown): value is StateStore {
+  return (
+    (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    typeof (value as StateStore).subscribe === "function" &&
+    typeof (value as StateStore).getState === "function"
+  );
+}
+
+/**
+ * Assert that a started instance is a state store.
+ */
+function assertStateStore<T>(store: T): T {
+  if (!isStateStore(store)) {
+    throw new TypeError(
+      "[braided-react] defineStoreResource: start() must return a store with subscribe() and getState()"
+    );
+  }
+  return store;
+}
+
+/**
+ * Define a resource whose instance is a state store.
+ *
+ * Like braided's defineResource, but start() must return (or resolve to)
+ * a store, checked at startup. halt() is optional: by default the store's
+ * `destroy()` is called if it has one (older Zustand versions), so
+ * listeners of a halted system don't leak.
+ *
+ * Read it in components with useResourceStore().
+ *
+ * @param config - Resource config; start() returns the store
+ * @returns The resource config
+ *
+ * @example
+ * ```typescript
+ * import { createStore } from "zustand/vanilla"
+ *
+ * const counterStoreResource = defineStoreResource({
+ *   start: () =>
+ *     createStore<CounterState>((set) => ({
+ *       count: 0,
+ *       increment: () => set((state) => ({ count: state.count + 1 })),
+ *     })),
+ * })
+ * ```
+ */
+export function defineStoreResource<
+  TStart extends (
+    ...args: any[]
+  ) => StateStore<any> | Promise<StateStore<any>>,
+>(
+  config: { start: TStart } & Omit<ResourceConfig<TStart>, "start" | "halt"> &
+    Partial<Pick<ResourceConfig<TStart>, "halt">>
+): ResourceConfig<TStart> {
+  const { start, halt } = config;
+
+  return defineResource({
+    ...config,
+    start: ((...args: Parameters<TStart>) => {
+      const store = start(...args);
+      return store instanceof Promise
+        ? store.then(assertStateStore)
+        : assertStateStore(store);
+    }) as TStart,
+    halt:
+      halt ??
+      ((store: unknown) => {
+        (store as { destroy?: () => void }).destroy?.();
+      }),
+  } as ResourceConfig<TStart>);
+}
@@ -0,0 +1,174 @@
+/**
+ * Tests for bindBrowserLifecycle
+ */
+
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { defineResource } from "braided";
+import { createSystemManager } from "../manager";
+import { bindBrowserLifecycle } from "../browser";
+
+describe("bindBrowserLifecycle", () => {
+  let unbind: (() => void) | null = null;
+
+  afterEach(() => {
+    unbind?.();
+    unbind = null;
+    setVisibility("visible");
+  });
+
+  function setVisibility(visibilityState: DocumentVisibilityState) {
+    Object.defineProperty(document, "visibilityState", {
+      configurable: true,
+      get: () => visibilityState,
+    });
+    document.dispatchEvent(new Event("visibilitychange"));
+  }
+
+  function createConfig(events: string[]) {
+    return {
+      queue: defineResource({
+        start: () => {
+          events.push("start");
+          return { pending: [] as string[] };
+        },
+        halt: () => {
+          events.push("halt");
+        },
+      }),
+    };
+  }
+
+  test("halts the system on pagehide", async () => {
+    const events: string[] = [];
+    const manager = createSystemManager(createConfig(events));
+    unbind = bindBrowserLifecycle(manager);
+    await manager.getSystem();
+
+    window.dispatchEvent(new Event("pagehide"));
+    await vi.waitFor(() => expect(manager.getState().status).toBe("halted"));
+
+    expect(events).toEqual(["start", "halt"]);
+  });
+
+  test("flushes once when beforeunload and pagehide both fire", async () => {
+    const events: string[] = [];
+    const manager = createSystemManager(createConfig(events));
+    const flush = vi.fn();
+    unbind = bindBrowserLifecycle(manager, { flush });
+    await manager.getSystem();
+
+    window.dispatchEvent(new Event("beforeunload"));
+    window.dispatchEvent(new Event("pagehide"));
+    await vi.waitFor(() => expect(manager.getState().status).toBe("halted"));
+
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(events).toEqual(["start", "halt"]);
+  });
+
+  test("a cancelled beforeunload doesn't halt or swallow the next unload", async () => {
+    const events: string[] = [];
+    const manager = createSystemManager(createConfig(events));
+    const flush = vi.fn();
+    unbind = bindBrowserLifecycle(manager, { flush });
+    await manager.getSystem();
+
+    window.dispatchEvent(new Event("beforeunload"));
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(manager.getState().status).toBe("ready");
+
+    // Navigation cancelled - the page keeps running
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await manager.getSystem();
+
+    window.dispatchEvent(new Event("pagehide"));
+    await vi.waitFor(() => expect(manager.getState().status).toBe("halted"));
+
+    expect(flush).toHaveBeenCalledTimes(2);
+    expect(events).toEqual(["start", "halt"]);
+  });
+
+  test("flush mode keeps the system running", async () => {
+    const events: string[] = [];
+    const manager = createSystemManager(createConfig(events));
+    const flush = vi.fn();
+    unbind = bindBrowserLifecycle(manager, { unload: "flush", flush });
+    const system = await manager.getSystem();
+
+    window.dispatchEvent(new Event("pagehide"));
+
+    expect(flush).toHaveBeenCalledWith(system);
+    expect(manager.getState().status).toBe("ready");
+    expect(events).toEqual(["start"]);
+  });
+
+  test("restarts a halted system when restored from the bfcache", async () => {
+    const events: string[] = [];
+    const manager = createSystemManager(createConfig(events));
+    unbind = bindBrowserLifecycle(manager);
+    await manager.getSystem();
+
+    window.dispatchEvent(new Event("pagehide"));
+    await vi.waitFor(() => expect(manager.getState().status).toBe("halted"));
+
+    window.dispatchEvent(
+      new PageTransitionEvent("pageshow", { persisted: true })
+    );
+    await vi.waitFor(() => expect(manager.getState().status).toBe("ready"));
+
+    expect(events).toEqual(["start", "halt", "start"]);
+  });
+
+  test("doesn't start a system on pageshow if it wasn't halted on unload", async () => {
+    const events: string[] = [];
+    const manager = createSystemManager(createConfig(events));
+    unbind = bindBrowserLifecycle(manager);
+
+    window.dispatchEvent(
+      new PageTransitionEvent("pageshow", { persisted: true })
+    );
+    await Promise.resolve();
+
+    expect(manager.getState().status).toBe("idle");
+    expect(events).toEqual([]);
+  });
+
+  test("pauses when hidden and resumes when visible", async () => {
+    const manager = createSystemManager(createConfig([]));
+    const pause = vi.fn();
+    const resume = vi.fn();
+    unbind = bindBrowserLifecycle(manager, { pause, resume });
+    const system = await manager.getSystem();
+
+    setVisibility("hidden");
+    expect(pause).toHaveBeenCalledWith(system);
+    expect(resume).not.toHaveBeenCalled();
+
+    setVisibility("visible");
+    expect(resume).toHaveBeenCalledWith(system);
+    expect(pause).toHaveBeenCalledTimes(1);
+  });
+
+  test("doesn't resume without a pause", async () => {
+    const manager = createSystemManager(createConfig([]));
+    const resume = vi.fn();
+    unbind = bindBrowserLifecycle(manager, { resume });
+
+    setVisibility("hidden"); // No system yet
+    await manager.getSystem();
+    setVisibility("visible");
+
+    expect(resume).not.toHaveBeenCalled();
+  });
+
+  test("returned function removes the listeners", async () => {
+    const events: string[] = [];
+    const manager = createSystemManager(createConfig(events));
+    bindBrowserLifecycle(manager)();
+    await manager.getSystem();
+
+    window.dispatchEvent(new Event("pagehide"));
+    await Promise.resolve();
+
+    expect(manager.getState().status).toBe("ready");
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for the error types
+ */
+
+import { describe, expect, test } from "vitest";
+import { defineResource, startSystem } from "braided";
+import {
+  SystemHaltError,
+  SystemStartTimeoutError,
+  SystemStartupError,
+  isSystemHaltError,
+  isSystemStartupError,
+} from "../errors";
+
+describe("SystemStartupError", () => {
+  async function startWithFailures() {
+    const { errors } = await startSystem({
+      db: defineResource({
+        start: (): { query: () => void } => {
+          throw new Error("Connection refused");
+        },
+        halt: () => {},
+      }),
+      api: defineResource({
+        dependencies: ["db"],
+        start: () => ({}),
+        halt: () => {},
+      }),
+      cache: defineResource({
+        start: () => ({}),
+        halt: () => {},
+      }),
+    });
+    return errors;
+  }
+
+  test("keeps the original errors by resource id", async () => {
+    const errors = await startWithFailures();
+    const error = new SystemStartupError(errors);
+
+    expect(error.errors).toBe(errors);
+    expect(error.errors.get("db")?.message).toBe("Connection refused");
+    expect(error.name).toBe("SystemStartupError");
+    expect(error).toBeInstanceOf(Error);
+  });
+
+  test("separates failed resources from skipped dependents", async () => {
+    const error = new SystemStartupError(await startWithFailures());
+
+    expect(error.failedResources).toEqual(["db"]);
+    expect(error.skippedResources).toEqual(["api"]);
+    expect(error.cause).toBe(error.errors.get("db"));
+  });
+
+  test("keeps the readable message", async () => {
+    const error = new SystemStartupError(await startWithFailures());
+
+    expect(error.message).toMatch(
+      /^System startup failed: db: Connection refused, api: Missing required dependencies/
+    );
+  });
+
+  test("isSystemStartupError", async () => {
+    expect(isSystemStartupError(new SystemStartupError(new Map()))).toBe(true);
+    expect(isSystemStartupError(new Error("nope"))).toBe(false);
+    expect(isSystemStartupError(new SystemStartTimeoutError(10))).toBe(false);
+  });
+});
+
+describe("SystemHaltError", () => {
+  test("carries the halt errors", () => {
+    const flushError = new Error("Flush failed");
+    const error = new SystemHaltError(
+      new Map([
+        ["queue", flushError],
+        ["socket", new Error("Already closed")],
+      ])
+    );
+
+    expect(error.name).toBe("SystemHaltError");
+    expect(error.failedResources).toEqual(["queue", "socket"]);
+    expect(error.cause).toBe(flushError);
+    expect(error.message).toBe(
+      "System shutdown failed: queue: Flush failed, socket: Already closed"
+    );
+  });
+
+  test("isSystemHaltError", () => {
+    expect(isSystemHaltError(new SystemHaltError(new Map()))).toBe(true);
+    expect(isSystemHaltError(new Error("nope"))).toBe(false);
+  });
+});
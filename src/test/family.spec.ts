@@ -0,0 +1,177 @@
+/**
+ * Tests for createSystemFamily
+ */
+
+import { describe, expect, test, vi } from "vitest";
+import { defineResource } from "braided";
+import { createSystemFamily } from "../family";
+
+describe("createSystemFamily", () => {
+  function createTenantConfig(events: string[]) {
+    return (tenant: string) => ({
+      db: defineResource({
+        start: () => {
+          events.push(`start ${tenant}`);
+          return { tenant };
+        },
+        halt: () => {
+          events.push(`halt ${tenant}`);
+        },
+      }),
+    });
+  }
+
+  test("creates a manager per key lazily", async () => {
+    const createConfig = vi.fn(createTenantConfig([]));
+    const family = createSystemFamily(createConfig);
+
+    expect(family.keys()).toEqual([]);
+    expect(createConfig).not.toHaveBeenCalled();
+
+    const acme = family.get("acme");
+    expect(family.get("acme")).toBe(acme);
+    expect(createConfig).toHaveBeenCalledTimes(1);
+    expect(createConfig).toHaveBeenCalledWith("acme");
+
+    // Creating the manager does not start the system
+    expect(acme.getState().status).toBe("idle");
+
+    const system = await acme.getSystem();
+    expect(system.db.tenant).toBe("acme");
+  });
+
+  test("keeps systems separate per key", async () => {
+    const family = createSystemFamily(createTenantConfig([]));
+
+    const [a, b] = await Promise.all([
+      family.get("a").getSystem(),
+      family.get("b").getSystem(),
+    ]);
+
+    expect(a.db.tenant).toBe("a");
+    expect(b.db.tenant).toBe("b");
+    expect(family.keys()).toEqual(["a", "b"]);
+    expect(family.has("a")).toBe(true);
+    expect(family.has("c")).toBe(false);
+  });
+
+  test("destroy halts the key's system and forgets it", async () => {
+    const events: string[] = [];
+    const family = createSystemFamily(createTenantConfig(events));
+
+    const first = family.get("a");
+    await first.getSystem();
+    await family.get("b").getSystem();
+
+    await family.destroy("a");
+
+    expect(events).toEqual(["start a", "start b", "halt a"]);
+    expect(first.getState().status).toBe("halted");
+    expect(family.keys()).toEqual(["b"]);
+    expect(family.get("a")).not.toBe(first);
+  });
+
+  test("destroy of an unknown key is a no-op", async () => {
+    const family = createSystemFamily(createTenantConfig([]));
+
+    await expect(family.destroy("missing")).resolves.toBeUndefined();
+    expect(family.keys()).toEqual([]);
+  });
+
+  test("destroyAll halts every system", async () => {
+    const events: string[] = [];
+    const family = createSystemFamily(createTenantConfig(events));
+
+    await family.get("a").getSystem();
+    await family.get("b").getSystem();
+    await family.destroyAll();
+
+    expect(events).toEqual(["start a", "start b", "halt a", "halt b"]);
+    expect(family.keys()).toEqual([]);
+  });
+
+  test("passes manager options to every member", async () => {
+    const family = createSystemFamily(
+      () => ({
+        slow: defineResource({
+          start: () => new Promise(() => {}),
+          halt: () => {},
+        }),
+      }),
+      { startTimeoutMs: 10 }
+    );
+
+    await expect(family.get("a").getSystem()).rejects.toThrow(
+      "System startup timed out after 10ms"
+    );
+  });
+
+  describe("LRU eviction", () => {
+    test("evicts and halts the least-recently-used key", async () => {
+      const events: string[] = [];
+      const family = createSystemFamily(createTenantConfig(events), {
+        maxSize: 2,
+      });
+
+      const a = family.get("a");
+      await a.getSystem();
+      await family.get("b").getSystem();
+      await family.get("c").getSystem();
+
+      expect(family.keys()).toEqual(["b", "c"]);
+      await vi.waitFor(() => expect(a.getState().status).toBe("halted"));
+      expect(events).toContain("halt a");
+    });
+
+    test("get counts as a use", async () => {
+      const family = createSystemFamily(createTenantConfig([]), {
+        maxSize: 2,
+      });
+
+      family.get("a");
+      family.get("b");
+      family.get("a");
+      family.get("c");
+
+      expect(family.keys()).toEqual(["a", "c"]);
+    });
+
+    test("keeps managers that are referenced or starting", async () => {
+      const events: string[] = [];
+      const family = createSystemFamily(createTenantConfig(events), {
+        maxSize: 1,
+      });
+
+      const a = family.get("a");
+      const release = a.acquire();
+      await a.getSystem();
+
+      const b = family.get("b");
+      const starting = b.getSystem();
+      family.get("c");
+
+      expect(family.keys()).toEqual(["a", "b", "c"]);
+
+      await starting;
+      release();
+      family.get("d");
+
+      expect(family.keys()).toEqual(["d"]);
+      await vi.waitFor(() => expect(a.getState().status).toBe("halted"));
+      expect(b.getState().status).toBe("halted");
+    });
+
+    test("has does not count as a use", () => {
+      const family = createSystemFamily(createTenantConfig([]), {
+        maxSize: 2,
+      });
+
+      family.get("a");
+      family.get("b");
+      family.has("a");
+      family.get("c");
+
+      expect(family.keys()).toEqual(["b", "c"]);
+    });
+  });
+});
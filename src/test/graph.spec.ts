@@ -0,0 +1,97 @@
+/**
+ * Tests for the dependency graph helpers
+ */
+
+import { describe, expect, test } from "vitest";
+import { defineResource, startSystem } from "braided";
+import {
+  collectDependents,
+  createSubsystemConfig,
+  findCriticalPath,
+  getDependencyIds,
+} from "../graph";
+
+describe("dependency graph helpers", () => {
+  const config = {
+    a: defineResource({ start: () => "a", halt: () => {} }),
+    b: defineResource({
+      dependencies: ["a"],
+      start: ({ a }: { a: string }) => `${a}b`,
+      halt: () => {},
+    }),
+    c: defineResource({
+      dependencies: { required: ["b"], optional: ["a"] },
+      start: ({ b }: { b: string; a?: string }) => `${b}c`,
+      halt: () => {},
+    }),
+    d: defineResource({ start: () => "d", halt: () => {} }),
+  };
+
+  test("getDependencyIds reads array and object dependency specs", () => {
+    expect(getDependencyIds(config.a)).toEqual([]);
+    expect(getDependencyIds(config.b)).toEqual(["a"]);
+    expect(getDependencyIds(config.c)).toEqual(["b", "a"]);
+  });
+
+  test("collectDependents follows dependents transitively", () => {
+    expect(collectDependents(config, ["a"])).toEqual(new Set(["a", "b", "c"]));
+    expect(collectDependents(config, ["b"])).toEqual(new Set(["b", "c"]));
+    expect(collectDependents(config, ["d"])).toEqual(new Set(["d"]));
+  });
+
+  test("createSubsystemConfig pins dependencies outside the subset", async () => {
+    const subsystem = createSubsystemConfig(
+      config,
+      new Set(["b", "c"]),
+      { a: "pinned" },
+      null
+    );
+
+    expect(Object.keys(subsystem).sort()).toEqual(["a", "b", "c"]);
+
+    const { system } = await startSystem(subsystem);
+    expect(system).toEqual({ a: "pinned", b: "pinnedb", c: "pinnedbc" });
+  });
+
+  test("pinned dependencies that had failed stay unavailable", async () => {
+    const subsystem = createSubsystemConfig(
+      config,
+      new Set(["b"]),
+      {},
+      new Map([["a", new Error("a failed")]])
+    );
+
+    const { system, errors } = await startSystem(subsystem);
+
+    expect(system.b).toBeUndefined();
+    expect(errors.get("b")?.message).toContain(
+      "Missing required dependencies"
+    );
+  });
+
+  test("findCriticalPath returns the slowest dependency chain", () => {
+    const durations = new Map([
+      ["a", 10],
+      ["b", 5],
+      ["c", 1],
+      ["d", 12],
+    ]);
+
+    expect(findCriticalPath(config, durations)).toEqual({
+      path: ["a", "b", "c"],
+      durationMs: 16,
+    });
+  });
+
+  test("findCriticalPath ignores resources without a duration", () => {
+    const durations = new Map([
+      ["c", 3],
+      ["d", 2],
+    ]);
+
+    expect(findCriticalPath(config, durations)).toEqual({
+      path: ["c"],
+      durationMs: 3,
+    });
+  });
+});
@@ -2,13 +2,17 @@
  * Tests for createSystemHooks
  */
 
-import { render, screen, waitFor } from "@testing-library/react";
+import { act, render, screen, waitFor } from "@testing-library/react";
 import { describe, expect, test, vi, beforeEach } from "vitest";
 import { defineResource, startSystem, haltSystem } from "braided";
 import type { StartedResource, StartedSystem } from "braided";
-import { createSystemHooks } from "../hooks";
+import { createFamilyHooks, createSystemHooks } from "../hooks";
+import { createSystemFamily } from "../family";
+import { SystemStartupError, isSystemStartupError } from "../errors";
 import { createSystemManager } from "../manager";
-import { Suspense, Component } from "react";
+import { defineStoreResource } from "../stores";
+import { createSilentLogger } from "../logger";
+import { StrictMode, Suspense, Component } from "react";
 import { ErrorBoundary } from "react-error-boundary";
 
 describe("createSystemHooks", () => {
@@ -68,6 +72,7 @@ describe("createSystemHooks", () => {
     expect(hooks.useSystem).toBeDefined();
     expect(hooks.useResource).toBeDefined();
     expect(hooks.useSystemStatus).toBeDefined();
+    expect(hooks.useStartupProgress).toBeDefined();
   });
 
   describe("Direct access (production mode)", () => {
@@ -183,6 +188,1340 @@ describe("createSystemHooks", () => {
     });
   });
 
+  describe("restartSystem", () => {
+    test("useResource re-renders with the new instance", async () => {
+      const manager = createSystemManager(testSystemConfig);
+      const { useResource } = createSystemHooks(manager);
+
+      const system = await manager.getSystem();
+      system.counter.increment();
+
+      function TestComponent() {
+        const counter = useResource("counter");
+        return <div data-testid="count">{counter.count}</div>;
+      }
+
+      render(
+        <Suspense fallback={<div data-testid="loading">Loading...</div>}>
+          <TestComponent />
+        </Suspense>
+      );
+
+      expect(screen.getByTestId("count").textContent).toBe("1");
+
+      await act(async () => {
+        await manager.restartSystem();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("0");
+      });
+    });
+
+    test("suspends while restarting in default mode", async () => {
+      const manager = createSystemManager(testSystemConfig);
+      const { useSystem } = createSystemHooks(manager);
+
+      await manager.getSystem();
+
+      function TestComponent() {
+        useSystem();
+        return <div data-testid="ready">Ready</div>;
+      }
+
+      render(
+        <Suspense fallback={<div data-testid="loading">Loading...</div>}>
+          <TestComponent />
+        </Suspense>
+      );
+
+      let restart!: Promise<unknown>;
+      act(() => {
+        restart = manager.restartSystem();
+      });
+
+      expect(screen.getByTestId("loading")).toBeDefined();
+
+      await act(async () => {
+        await restart;
+      });
+
+      expect(screen.getByTestId("ready")).toBeDefined();
+    });
+
+    test("keeps rendering the previous instance in transition mode", async () => {
+      let generation = 0;
+      const manager = createSystemManager({
+        conn: defineResource({
+          start: async () => ({ id: ++generation }),
+          halt: () => {},
+        }),
+      });
+      const { useResource } = createSystemHooks(manager);
+
+      await manager.getSystem();
+
+      const rendered: Array<number | string> = [];
+
+      function TestComponent() {
+        const conn = useResource("conn");
+        rendered.push(conn.id);
+        return <div data-testid="id">{conn.id}</div>;
+      }
+
+      function Fallback() {
+        rendered.push("fallback");
+        return <div>Loading...</div>;
+      }
+
+      render(
+        <Suspense fallback={<Fallback />}>
+          <TestComponent />
+        </Suspense>
+      );
+
+      await act(async () => {
+        await manager.restartSystem({ mode: "transition" });
+      });
+
+      expect(screen.getByTestId("id").textContent).toBe("2");
+      expect(rendered).not.toContain("fallback");
+    });
+  });
+
+  describe("restartResource", () => {
+    test("useResource re-renders with the restarted instance", async () => {
+      const manager = createSystemManager(testSystemConfig);
+      const { useResource } = createSystemHooks(manager);
+
+      const system = await manager.getSystem();
+      system.counter.increment();
+      system.logger.log("kept");
+
+      function TestComponent() {
+        const counter = useResource("counter");
+        const logger = useResource("logger");
+        return (
+          <div>
+            <div data-testid="count">{counter.count}</div>
+            <div data-testid="logs">{logger.logs.length}</div>
+          </div>
+        );
+      }
+
+      render(<TestComponent />);
+
+      expect(screen.getByTestId("count").textContent).toBe("1");
+      expect(screen.getByTestId("logs").textContent).toBe("1");
+
+      await act(async () => {
+        await manager.restartResource("counter");
+      });
+
+      // counter restarted, logger depends on it so it restarted too
+      expect(screen.getByTestId("count").textContent).toBe("0");
+      expect(screen.getByTestId("logs").textContent).toBe("0");
+    });
+  });
+
+  describe("refcount lifecycle", () => {
+    function createRefcountHooks() {
+      const manager = createSystemManager(testSystemConfig, {
+        lifecycle: "refcount",
+        gracePeriodMs: 20,
+      });
+      const hooks = createSystemHooks(manager);
+
+      function Counter() {
+        const counter = hooks.useResource("counter");
+        return <div data-testid="counter">{counter.getCount()}</div>;
+      }
+
+      return { manager, hooks, Counter };
+    }
+
+    test("halts the system once the last consumer unmounts", async () => {
+      const { manager, Counter } = createRefcountHooks();
+
+      const { unmount } = render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Counter />
+          <Counter />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getAllByTestId("counter")).toHaveLength(2);
+      });
+      expect(manager.getRefCount()).toBe(2);
+
+      unmount();
+      expect(manager.getRefCount()).toBe(0);
+
+      await waitFor(() => {
+        expect(manager.getState().status).toBe("halted");
+      });
+    });
+
+    test("remounting within the grace period reuses the instance", async () => {
+      const { manager, Counter } = createRefcountHooks();
+
+      const first = render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Counter />
+        </Suspense>
+      );
+      await waitFor(() => {
+        expect(screen.getByTestId("counter")).toBeDefined();
+      });
+      const system = manager.getCurrentSystem();
+
+      // Quick route change: old page unmounts, new page mounts
+      first.unmount();
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Counter />
+        </Suspense>
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+
+      expect(manager.getState().status).toBe("ready");
+      expect(manager.getCurrentSystem()).toBe(system);
+      expect(manager.getRefCount()).toBe(1);
+    });
+
+    test("survives StrictMode double-mounts", async () => {
+      const { manager, Counter } = createRefcountHooks();
+      await manager.getSystem();
+
+      render(
+        <StrictMode>
+          <Counter />
+        </StrictMode>
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+
+      expect(manager.getState().status).toBe("ready");
+      expect(manager.getRefCount()).toBe(1);
+    });
+
+    test("context override does not hold a reference", async () => {
+      const { manager, hooks, Counter } = createRefcountHooks();
+      const { system } = await startSystem(testSystemConfig);
+
+      render(
+        <hooks.SystemProvider system={system}>
+          <Counter />
+        </hooks.SystemProvider>
+      );
+
+      expect(screen.getByTestId("counter")).toBeDefined();
+      expect(manager.getRefCount()).toBe(0);
+
+      await haltSystem(testSystemConfig, system);
+    });
+  });
+
+  describe("useStartupProgress", () => {
+    test("shows progress in the Suspense fallback", async () => {
+      const gates: Array<() => void> = [];
+      const gated = (name: string) =>
+        defineResource({
+          start: () =>
+            new Promise<string>((resolve) => {
+              gates.push(() => resolve(name));
+            }),
+          halt: () => {},
+        });
+      const manager = createSystemManager({
+        first: gated("first"),
+        second: gated("second"),
+      });
+      const { useResource, useStartupProgress } = createSystemHooks(manager);
+
+      function Loading() {
+        const { started, total, current } = useStartupProgress();
+        return (
+          <div data-testid="progress">
+            {started}/{total} {current}
+          </div>
+        );
+      }
+
+      function App() {
+        const second = useResource("second");
+        return <div data-testid="app">{second}</div>;
+      }
+
+      render(
+        <Suspense fallback={<Loading />}>
+          <App />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("progress").textContent).toBe("0/2 first");
+      });
+
+      act(() => gates[0]());
+      await waitFor(() => {
+        expect(screen.getByTestId("progress").textContent).toBe("1/2 second");
+      });
+
+      act(() => gates[1]());
+      await waitFor(() => {
+        expect(screen.getByTestId("app").textContent).toBe("second");
+      });
+    });
+  });
+
+  describe("useResourceState", () => {
+    function createStoreResource() {
+      return defineResource({
+        start: () => {
+          let state = { count: 0, label: "counter" };
+          const listeners = new Set<() => void>();
+          return {
+            increment: () => {
+              state = { ...state, count: state.count + 1 };
+              listeners.forEach((listener) => listener());
+            },
+            rename: (label: string) => {
+              state = { ...state, label };
+              listeners.forEach((listener) => listener());
+            },
+            subscribe: (listener: () => void) => {
+              listeners.add(listener);
+              return () => {
+                listeners.delete(listener);
+              };
+            },
+            getSnapshot: () => state,
+            listenerCount: () => listeners.size,
+          };
+        },
+        halt: () => {},
+      });
+    }
+
+    test("returns the snapshot and re-renders on changes", async () => {
+      const manager = createSystemManager({ store: createStoreResource() });
+      const { useResourceState } = createSystemHooks(manager);
+
+      function Counter() {
+        const state = useResourceState("store");
+        return <div data-testid="count">{state.count}</div>;
+      }
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Counter />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("0");
+      });
+
+      act(() => manager.getCurrentSystem()!.store.increment());
+
+      expect(screen.getByTestId("count").textContent).toBe("1");
+    });
+
+    test("re-renders only when the selection changes", async () => {
+      const manager = createSystemManager({ store: createStoreResource() });
+      const { useResourceState } = createSystemHooks(manager);
+      let renders = 0;
+
+      function Label() {
+        const label = useResourceState("store", (state) => state.label);
+        renders++;
+        return <div data-testid="label">{label}</div>;
+      }
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Label />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("label").textContent).toBe("counter");
+      });
+      const rendersBefore = renders;
+
+      act(() => manager.getCurrentSystem()!.store.increment());
+      expect(renders).toBe(rendersBefore);
+
+      act(() => manager.getCurrentSystem()!.store.rename("clicks"));
+      expect(screen.getByTestId("label").textContent).toBe("clicks");
+    });
+
+    test("isEqual keeps equal selections from re-rendering", async () => {
+      const manager = createSystemManager({ store: createStoreResource() });
+      const { useResourceState } = createSystemHooks(manager);
+      let renders = 0;
+
+      function Parity() {
+        const parity = useResourceState(
+          "store",
+          (state) => ({ even: state.count % 2 === 0 }),
+          (a, b) => a.even === b.even
+        );
+        renders++;
+        return <div data-testid="parity">{parity.even ? "even" : "odd"}</div>;
+      }
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Parity />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("parity").textContent).toBe("even");
+      });
+      const rendersBefore = renders;
+
+      act(() => manager.getCurrentSystem()!.store.rename("other"));
+      expect(renders).toBe(rendersBefore);
+
+      act(() => manager.getCurrentSystem()!.store.increment());
+      expect(screen.getByTestId("parity").textContent).toBe("odd");
+    });
+
+    test("resubscribes to the new instance after a restart", async () => {
+      const manager = createSystemManager({ store: createStoreResource() });
+      const { useResourceState } = createSystemHooks(manager);
+
+      function Counter() {
+        const count = useResourceState("store", (state) => state.count);
+        return <div data-testid="count">{count}</div>;
+      }
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Counter />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("0");
+      });
+      const oldStore = manager.getCurrentSystem()!.store;
+      act(() => oldStore.increment());
+      expect(screen.getByTestId("count").textContent).toBe("1");
+
+      await act(async () => {
+        await manager.restartSystem({ mode: "transition" });
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("0");
+      });
+      const newStore = manager.getCurrentSystem()!.store;
+      expect(oldStore.listenerCount()).toBe(0);
+
+      act(() => newStore.increment());
+      expect(screen.getByTestId("count").textContent).toBe("1");
+    });
+
+    test("only accepts store resources", () => {
+      const manager = createSystemManager({
+        store: createStoreResource(),
+        plain: counterResource,
+      });
+      const { useResourceState } = createSystemHooks(manager);
+
+      function Plain() {
+        // @ts-expect-error - counter has no subscribe/getSnapshot
+        useResourceState("plain");
+        return null;
+      }
+
+      expect(Plain).toBeDefined();
+    });
+  });
+
+  describe("useResourceStore", () => {
+    type CounterState = { count: number; increment: () => void };
+
+    // Shaped like zustand/vanilla createStore: listeners get (state, previous)
+    function createVanillaStore() {
+      let state: CounterState;
+      const listeners = new Set<
+        (state: CounterState, previous: CounterState) => void
+      >();
+      const setState = (partial: Partial<CounterState>) => {
+        const previous = state;
+        state = { ...state, ...partial };
+        listeners.forEach((listener) => listener(state, previous));
+      };
+      state = {
+        count: 0,
+        increment: () => setState({ count: state.count + 1 }),
+      };
+      return {
+        getState: () => state,
+        setState,
+        subscribe: (
+          listener: (state: CounterState, previous: CounterState) => void
+        ) => {
+          listeners.add(listener);
+          return () => {
+            listeners.delete(listener);
+          };
+        },
+        listenerCount: () => listeners.size,
+      };
+    }
+
+    // Shaped like a Redux store
+    function createReduxStore() {
+      let state = { todos: [] as string[] };
+      const listeners = new Set<() => void>();
+      return {
+        getState: () => state,
+        dispatch: (action: { type: "add"; text: string }) => {
+          state = { todos: [...state.todos, action.text] };
+          listeners.forEach((listener) => listener());
+          return action;
+        },
+        subscribe: (listener: () => void) => {
+          listeners.add(listener);
+          return () => {
+            listeners.delete(listener);
+          };
+        },
+      };
+    }
+
+    test("selects from a Zustand-style store", async () => {
+      const manager = createSystemManager({
+        counterStore: defineStoreResource({ start: createVanillaStore }),
+      });
+      const { useResourceStore } = createSystemHooks(manager);
+
+      function Counter() {
+        const count = useResourceStore("counterStore", (state) => state.count);
+        const increment = useResourceStore(
+          "counterStore",
+          (state) => state.increment
+        );
+        return (
+          <button data-testid="count" onClick={increment}>
+            {count}
+          </button>
+        );
+      }
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Counter />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("0");
+      });
+
+      act(() => screen.getByTestId("count").click());
+
+      expect(screen.getByTestId("count").textContent).toBe("1");
+    });
+
+    test("returns the whole state of a Redux-style store", async () => {
+      const manager = createSystemManager({
+        todoStore: defineStoreResource({ start: createReduxStore }),
+      });
+      const { useResourceStore } = createSystemHooks(manager);
+
+      function Todos() {
+        const { todos } = useResourceStore("todoStore");
+        return <div data-testid="todos">{todos.join(",")}</div>;
+      }
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Todos />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("todos").textContent).toBe("");
+      });
+
+      act(() => {
+        manager.getCurrentSystem()!.todoStore.dispatch({
+          type: "add",
+          text: "write tests",
+        });
+      });
+
+      expect(screen.getByTestId("todos").textContent).toBe("write tests");
+    });
+
+    test("follows the new store instance after a restart", async () => {
+      const manager = createSystemManager({
+        counterStore: defineStoreResource({ start: createVanillaStore }),
+      });
+      const { useResourceStore } = createSystemHooks(manager);
+
+      function Counter() {
+        const count = useResourceStore("counterStore", (state) => state.count);
+        return <div data-testid="count">{count}</div>;
+      }
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Counter />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("0");
+      });
+      const oldStore = manager.getCurrentSystem()!.counterStore;
+      act(() => oldStore.getState().increment());
+      expect(screen.getByTestId("count").textContent).toBe("1");
+
+      await act(async () => {
+        await manager.restartSystem({ mode: "transition" });
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("0");
+      });
+      const newStore = manager.getCurrentSystem()!.counterStore;
+      expect(newStore).not.toBe(oldStore);
+      expect(oldStore.listenerCount()).toBe(0);
+
+      act(() => newStore.getState().increment());
+      expect(screen.getByTestId("count").textContent).toBe("1");
+    });
+
+    test("only accepts state store resources", () => {
+      const manager = createSystemManager({
+        counterStore: defineStoreResource({ start: createVanillaStore }),
+        plain: counterResource,
+      });
+      const { useResourceStore } = createSystemHooks(manager);
+
+      function Plain() {
+        // @ts-expect-error - counter has no subscribe/getState
+        useResourceStore("plain");
+        return null;
+      }
+
+      expect(Plain).toBeDefined();
+    });
+  });
+
+  describe("useSystemSelector", () => {
+    function createStore<T>(initial: T) {
+      let state = initial;
+      const listeners = new Set<() => void>();
+      return {
+        set: (next: T) => {
+          state = next;
+          listeners.forEach((listener) => listener());
+        },
+        subscribe: (listener: () => void) => {
+          listeners.add(listener);
+          return () => {
+            listeners.delete(listener);
+          };
+        },
+        getSnapshot: () => state,
+        listenerCount: () => listeners.size,
+      };
+    }
+
+    function createConfig() {
+      return {
+        counter: defineResource({
+          start: () => createStore(1),
+          halt: () => {},
+        }),
+        items: defineResource({
+          start: () => createStore(["a", "b"]),
+          halt: () => {},
+        }),
+        unrelated: defineResource({
+          start: () => createStore("x"),
+          halt: () => {},
+        }),
+      };
+    }
+
+    test("combines several stores and updates when either changes", async () => {
+      const manager = createSystemManager(createConfig());
+      const { useSystemSelector } = createSystemHooks(manager);
+
+      function Summary() {
+        const total = useSystemSelector(
+          (system) =>
+            system.counter.getSnapshot() * system.items.getSnapshot().length
+        );
+        return <div data-testid="total">{total}</div>;
+      }
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Summary />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("total").textContent).toBe("2");
+      });
+      const system = manager.getCurrentSystem()!;
+
+      act(() => system.counter.set(3));
+      expect(screen.getByTestId("total").textContent).toBe("6");
+
+      act(() => system.items.set(["a"]));
+      expect(screen.getByTestId("total").textContent).toBe("3");
+    });
+
+    test("only subscribes to the stores the selector reads", async () => {
+      const manager = createSystemManager(createConfig());
+      const { useSystemSelector } = createSystemHooks(manager);
+      const selector = vi.fn(
+        (system: StartedSystem<ReturnType<typeof createConfig>>) =>
+          system.counter.getSnapshot()
+      );
+
+      function Count() {
+        const count = useSystemSelector(selector);
+        return <div data-testid="count">{count}</div>;
+      }
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Count />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("1");
+      });
+      const system = manager.getCurrentSystem()!;
+      expect(system.counter.listenerCount()).toBe(1);
+      expect(system.unrelated.listenerCount()).toBe(0);
+
+      const calls = selector.mock.calls.length;
+      act(() => system.unrelated.set("y"));
+      expect(selector.mock.calls.length).toBe(calls);
+    });
+
+    test("follows dependencies that change between runs", async () => {
+      const manager = createSystemManager(createConfig());
+      const { useSystemSelector } = createSystemHooks(manager);
+
+      function Conditional() {
+        const value = useSystemSelector((system) =>
+          system.counter.getSnapshot() > 1
+            ? system.unrelated.getSnapshot()
+            : "low"
+        );
+        return <div data-testid="value">{value}</div>;
+      }
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Conditional />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("value").textContent).toBe("low");
+      });
+      const system = manager.getCurrentSystem()!;
+      expect(system.unrelated.listenerCount()).toBe(0);
+
+      act(() => system.counter.set(2));
+      expect(screen.getByTestId("value").textContent).toBe("x");
+      expect(system.unrelated.listenerCount()).toBe(1);
+
+      act(() => system.unrelated.set("y"));
+      expect(screen.getByTestId("value").textContent).toBe("y");
+    });
+
+    test("isEqual keeps equal results from re-rendering", async () => {
+      const manager = createSystemManager(createConfig());
+      const { useSystemSelector } = createSystemHooks(manager);
+      let renders = 0;
+
+      function Sizes() {
+        const sizes = useSystemSelector(
+          (system) => ({ items: system.items.getSnapshot().length }),
+          (a, b) => a.items === b.items
+        );
+        renders++;
+        return <div data-testid="sizes">{sizes.items}</div>;
+      }
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Sizes />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("sizes").textContent).toBe("2");
+      });
+      const rendersBefore = renders;
+
+      act(() => manager.getCurrentSystem()!.items.set(["c", "d"]));
+      expect(renders).toBe(rendersBefore);
+    });
+
+    test("still throws critical startup failures to the ErrorBoundary", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager({
+        counter: defineResource({
+          start: (): ReturnType<typeof createStore<number>> => {
+            throw new Error("Counter unavailable");
+          },
+          halt: () => {},
+        }),
+      });
+      const { useSystemSelector } = createSystemHooks(manager);
+
+      function Count() {
+        const count = useSystemSelector((system) =>
+          system.counter.getSnapshot()
+        );
+        return <div>{count}</div>;
+      }
+
+      render(
+        <ErrorBoundary
+          fallbackRender={({ error }) => (
+            <div data-testid="error">{error.message}</div>
+          )}
+        >
+          <Suspense fallback={<div>Loading...</div>}>
+            <Count />
+          </Suspense>
+        </ErrorBoundary>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("error").textContent).toContain(
+          "Counter unavailable"
+        );
+      });
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("useResourceEvent", () => {
+    type BusEvents = { tick: [count: number]; reset: [] };
+
+    type Bus = {
+      on(event: "tick", handler: (count: number) => void): () => void;
+      on(event: "reset", handler: () => void): () => void;
+      emit<E extends keyof BusEvents>(event: E, ...args: BusEvents[E]): void;
+      listenerCount(): number;
+    };
+
+    function createBusResource() {
+      return defineResource({
+        start: (): Bus => {
+          const handlers = new Map<string, Set<(...args: any[]) => void>>();
+          return {
+            on(event: string, handler: (...args: any[]) => void) {
+              const set = handlers.get(event) ?? new Set();
+              set.add(handler);
+              handlers.set(event, set);
+              return () => {
+                set.delete(handler);
+              };
+            },
+            emit(event, ...args) {
+              handlers.get(event)?.forEach((handler) => handler(...args));
+            },
+            listenerCount: () =>
+              Array.from(handlers.values()).reduce((n, set) => n + set.size, 0),
+          };
+        },
+        halt: () => {},
+      });
+    }
+
+    test("calls the handler with the event's arguments", async () => {
+      const manager = createSystemManager({ bus: createBusResource() });
+      const { useResourceEvent } = createSystemHooks(manager);
+      const received: number[] = [];
+
+      function Listener() {
+        useResourceEvent("bus", "tick", (count) => {
+          received.push(count);
+        });
+        return <div data-testid="listening">Listening</div>;
+      }
+
+      const { unmount } = render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <Listener />
+        </Suspense>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("listening")).toBeDefined();
+      });
+      const bus = manager.getCurrentSystem()!.bus;
+
+      bus.emit("tick", 1);
+      bus.emit("reset");
+      bus.emit("tick", 2);
+      expect(received).toEqual([1, 2]);
+
+      unmount();
+      expect(bus.listenerCount()).toBe(0);
+    });
+
+    test("uses the latest handler without resubscribing", async () => {
+      const manager = createSystemManager({ bus: createBusResource() });
+      const { useResourceEvent } = createSystemHooks(manager);
+      const bus = (await manager.getSystem()).bus;
+      const onSpy = vi.spyOn(bus, "on");
+      const received: string[] = [];
+
+      function Listener({ label }: { label: string }) {
+        useResourceEvent("bus", "reset", () => {
+          received.push(label);
+        });
+        return null;
+      }
+
+      const { rerender } = render(<Listener label="first" />);
+      bus.emit("reset");
+
+      rerender(<Listener label="second" />);
+      bus.emit("reset");
+
+      expect(received).toEqual(["first", "second"]);
+      expect(onSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test("rebinds to the new instance after a restart", async () => {
+      const manager = createSystemManager({ bus: createBusResource() });
+      const { useResourceEvent } = createSystemHooks(manager);
+      const received: number[] = [];
+      const oldBus = (await manager.getSystem()).bus;
+
+      function Listener() {
+        useResourceEvent("bus", "tick", (count) => {
+          received.push(count);
+        });
+        return null;
+      }
+
+      render(<Listener />);
+
+      await act(async () => {
+        await manager.restartSystem({ mode: "transition" });
+      });
+      const newBus = manager.getCurrentSystem()!.bus;
+
+      expect(oldBus.listenerCount()).toBe(0);
+      newBus.emit("tick", 7);
+      expect(received).toEqual([7]);
+    });
+
+    test("supports DOM EventTargets", async () => {
+      const manager = createSystemManager({
+        target: defineResource({
+          start: () => new EventTarget(),
+          halt: () => {},
+        }),
+      });
+      const { useResourceEvent } = createSystemHooks(manager);
+      const target = (await manager.getSystem()).target;
+      const handler = vi.fn();
+
+      function Listener() {
+        useResourceEvent("target", "ping", handler);
+        return null;
+      }
+
+      render(<Listener />);
+      const event = new Event("ping");
+      target.dispatchEvent(event);
+
+      expect(handler).toHaveBeenCalledWith(event);
+    });
+
+    test("types events from the resource's on signature", () => {
+      const manager = createSystemManager({
+        bus: createBusResource(),
+        plain: counterResource,
+      });
+      const { useResourceEvent } = createSystemHooks(manager);
+
+      function Typed() {
+        useResourceEvent("bus", "tick", (count) => {
+          const n: number = count;
+          return n;
+        });
+        // @ts-expect-error - "tick" passes a number
+        useResourceEvent("bus", "tick", (count: string) => count);
+        // @ts-expect-error - unknown event
+        useResourceEvent("bus", "nope", () => {});
+        // @ts-expect-error - counter has no on()
+        useResourceEvent("plain", "tick", () => {});
+        return null;
+      }
+
+      expect(Typed).toBeDefined();
+    });
+  });
+
+  describe("optional resources", () => {
+    const analyticsResource = defineResource({
+      start: (): { track: (event: string) => void } => {
+        throw new Error("Analytics blocked");
+      },
+      halt: () => {},
+    });
+
+    test("a failed optional resource leaves the system usable", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager(
+        { ...testSystemConfig, analytics: analyticsResource },
+        { optional: ["analytics"] }
+      );
+      const { useResource, useSystemStatus } = createSystemHooks(manager);
+
+      function App() {
+        const counter = useResource("counter");
+        const analytics = useResource("analytics");
+        const { isReady, isDegraded } = useSystemStatus();
+
+        return (
+          <div data-testid="app">
+            {counter.getCount()} {analytics ? "tracking" : "no analytics"}{" "}
+            {isReady && isDegraded ? "degraded" : "other"}
+          </div>
+        );
+      }
+
+      render(
+        <ErrorBoundary fallback={<div data-testid="error">Error</div>}>
+          <Suspense fallback={<div>Loading...</div>}>
+            <App />
+          </Suspense>
+        </ErrorBoundary>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("app").textContent).toBe(
+          "0 no analytics degraded"
+        );
+      });
+      expect(screen.queryByTestId("error")).toBeNull();
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("only critical failures reach the ErrorBoundary", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager(
+        {
+          analytics: analyticsResource,
+          database: defineResource({
+            start: (): any => {
+              throw new Error("Database down");
+            },
+            halt: () => {},
+          }),
+        },
+        { optional: ["analytics"] }
+      );
+      const { useSystem } = createSystemHooks(manager);
+
+      function App() {
+        useSystem();
+        return <div>App</div>;
+      }
+
+      function ErrorFallback({ error }: { error: Error }) {
+        return <div data-testid="error-message">{error.message}</div>;
+      }
+
+      render(
+        <ErrorBoundary FallbackComponent={ErrorFallback}>
+          <Suspense fallback={<div>Loading...</div>}>
+            <App />
+          </Suspense>
+        </ErrorBoundary>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("error-message").textContent).toBe(
+          "System startup failed: database: Database down"
+        );
+      });
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("optional resources are typed as possibly undefined", () => {
+      const manager = createSystemManager(
+        { ...testSystemConfig, analytics: analyticsResource },
+        { optional: ["analytics"] }
+      );
+      const { useResource } = createSystemHooks(manager);
+
+      // Type-level check only, never rendered
+      function TypeCheck() {
+        const analytics = useResource("analytics");
+        // @ts-expect-error - optional resources may be undefined
+        analytics.track("render");
+        analytics?.track("render");
+
+        const counter = useResource("counter");
+        counter.increment();
+        return null;
+      }
+
+      expect(TypeCheck).toBeDefined();
+    });
+  });
+
+  describe("useOptionalResource / useResourceStatus", () => {
+    const analyticsResource = defineResource({
+      start: (): { track: (event: string) => void } => {
+        throw new Error("Analytics blocked");
+      },
+      halt: () => {},
+    });
+
+    test("returns undefined until the system is started, without suspending", async () => {
+      const manager = createSystemManager(testSystemConfig);
+      const { useOptionalResource, useResourceStatus } =
+        createSystemHooks(manager);
+
+      function Badge() {
+        const counter = useOptionalResource("counter");
+        const { status } = useResourceStatus("counter");
+        return (
+          <div data-testid="badge">
+            {counter ? counter.getCount() : "none"} {status}
+          </div>
+        );
+      }
+
+      render(<Badge />);
+      expect(screen.getByTestId("badge").textContent).toBe("none idle");
+      expect(manager.getState().status).toBe("idle");
+
+      await act(async () => {
+        await manager.getSystem();
+      });
+      expect(screen.getByTestId("badge").textContent).toBe("0 started");
+
+      await act(async () => {
+        await manager.destroySystem();
+      });
+      expect(screen.getByTestId("badge").textContent).toBe("none idle");
+    });
+
+    test("reports starting while the system starts", async () => {
+      let finishStart: (() => void) | undefined;
+      const manager = createSystemManager({
+        slow: defineResource({
+          start: () =>
+            new Promise<{ ready: true }>((resolve) => {
+              finishStart = () => resolve({ ready: true });
+            }),
+          halt: () => {},
+        }),
+      });
+      const { useResourceStatus } = createSystemHooks(manager);
+
+      function Status() {
+        const { status } = useResourceStatus("slow");
+        return <div data-testid="status">{status}</div>;
+      }
+
+      render(<Status />);
+      let started!: Promise<unknown>;
+      act(() => {
+        started = manager.getSystem();
+      });
+      expect(screen.getByTestId("status").textContent).toBe("starting");
+      await waitFor(() => expect(finishStart).toBeDefined());
+
+      await act(async () => {
+        finishStart!();
+        await started;
+      });
+      expect(screen.getByTestId("status").textContent).toBe("started");
+    });
+
+    test("a failed resource is undefined with its error", async () => {
+      const manager = createSystemManager(
+        { ...testSystemConfig, analytics: analyticsResource },
+        { optional: ["analytics"], logger: createSilentLogger() }
+      );
+      const { useOptionalResource, useResourceStatus } =
+        createSystemHooks(manager);
+
+      function Tracker() {
+        const analytics = useOptionalResource("analytics");
+        const { isFailed, error } = useResourceStatus("analytics");
+        return (
+          <div data-testid="tracker">
+            {analytics ? "tracking" : "no analytics"}{" "}
+            {isFailed ? error?.message : "ok"}
+          </div>
+        );
+      }
+
+      await manager.getSystem();
+      render(<Tracker />);
+
+      expect(screen.getByTestId("tracker").textContent).toBe(
+        "no analytics Analytics blocked"
+      );
+    });
+
+    test("never throws when a critical resource failed", async () => {
+      const manager = createSystemManager(
+        {
+          ...testSystemConfig,
+          database: defineResource({
+            start: (): { query: () => void } => {
+              throw new Error("Database down");
+            },
+            halt: () => {},
+          }),
+        },
+        { logger: createSilentLogger() }
+      );
+      const { useOptionalResource, useResourceStatus } =
+        createSystemHooks(manager);
+
+      function Panel() {
+        const counter = useOptionalResource("counter");
+        const database = useResourceStatus("database");
+        const counterStatus = useResourceStatus("counter");
+        return (
+          <div data-testid="panel">
+            {counter ? "counter" : "no counter"} {database.error?.message}{" "}
+            {counterStatus.status}
+          </div>
+        );
+      }
+
+      await manager.getSystem().catch(() => {});
+      render(
+        <ErrorBoundary fallback={<div data-testid="error">Error</div>}>
+          <Panel />
+        </ErrorBoundary>
+      );
+
+      expect(screen.getByTestId("panel").textContent).toBe(
+        "no counter Database down failed"
+      );
+      expect(screen.queryByTestId("error")).toBeNull();
+    });
+
+    test("reports a resource being restarted as starting", async () => {
+      let releaseHalt!: () => void;
+      const haltGate = new Promise<void>((resolve) => {
+        releaseHalt = resolve;
+      });
+      let generation = 0;
+      const manager = createSystemManager({
+        counter: counterResource,
+        socket: defineResource({
+          start: () => ({ generation: ++generation }),
+          halt: () => haltGate,
+        }),
+      });
+      const { useOptionalResource, useResourceStatus } =
+        createSystemHooks(manager);
+
+      function Panel() {
+        const socket = useOptionalResource("socket");
+        const socketStatus = useResourceStatus("socket");
+        const counterStatus = useResourceStatus("counter");
+        return (
+          <div data-testid="panel">
+            {socket ? socket.generation : "none"} {socketStatus.status}{" "}
+            {counterStatus.status}
+          </div>
+        );
+      }
+
+      await manager.getSystem();
+      render(<Panel />);
+      expect(screen.getByTestId("panel").textContent).toBe(
+        "1 started started"
+      );
+
+      let restarting!: Promise<unknown>;
+      act(() => {
+        restarting = manager.restartResource("socket");
+      });
+      await waitFor(() => {
+        expect(screen.getByTestId("panel").textContent).toBe(
+          "none starting started"
+        );
+      });
+
+      await act(async () => {
+        releaseHalt();
+        await restarting;
+      });
+      expect(screen.getByTestId("panel").textContent).toBe(
+        "2 started started"
+      );
+    });
+
+    test("reads the system injected by SystemProvider", () => {
+      const manager = createSystemManager(testSystemConfig);
+      const { SystemProvider, useOptionalResource, useResourceStatus } =
+        createSystemHooks(manager);
+      const mockSystem = {
+        counter: { count: 7, increment: () => {}, getCount: () => 7 },
+      } as StartedSystem<typeof testSystemConfig>;
+
+      function Panel() {
+        const counter = useOptionalResource("counter");
+        const logger = useResourceStatus("logger");
+        return (
+          <div data-testid="panel">
+            {counter?.getCount()} {logger.status}
+          </div>
+        );
+      }
+
+      render(
+        <SystemProvider system={mockSystem}>
+          <Panel />
+        </SystemProvider>
+      );
+
+      expect(screen.getByTestId("panel").textContent).toBe("7 failed");
+      expect(manager.getState().status).toBe("idle");
+    });
+  });
+
   describe("Context override (testing mode)", () => {
     test("SystemProvider overrides manager with injected system", async () => {
       const manager = createSystemManager(testSystemConfig);
@@ -274,12 +1613,55 @@ describe("createSystemHooks", () => {
         </SystemProvider>
       );
 
-      // Should use mock (100), not real system (1)
-      expect(screen.getByTestId("count").textContent).toBe("100");
+      // Should use mock (100), not real system (1)
+      expect(screen.getByTestId("count").textContent).toBe("100");
+    });
+  });
+
+  describe("useSystemStatus (manual control)", () => {
+    test("starting from a suspended render doesn't update other components mid-render", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager(testSystemConfig);
+      const { useResource, useSystemStatus } = createSystemHooks(manager);
+
+      function Status() {
+        const { status } = useSystemStatus();
+        return <div data-testid="status">{status}</div>;
+      }
+
+      function Consumer() {
+        const counter = useResource("counter");
+        return <div data-testid="count">{counter.getCount()}</div>;
+      }
+
+      render(
+        <>
+          <Status />
+          <Suspense fallback={<div>Loading...</div>}>
+            <Consumer />
+          </Suspense>
+        </>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("0");
+      });
+
+      await act(async () => {
+        await manager.destroySystem();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("0");
+        expect(screen.getByTestId("status").textContent).toBe("ready");
+      });
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
     });
-  });
 
-  describe("useSystemStatus (manual control)", () => {
     test("returns idle status before system starts", () => {
       const manager = createSystemManager(testSystemConfig);
       const { useSystemStatus } = createSystemHooks(manager);
@@ -366,6 +1748,134 @@ describe("createSystemHooks", () => {
       });
     });
 
+    test("all consumers share the manager status", async () => {
+      const manager = createSystemManager(testSystemConfig);
+      const { useSystemStatus } = createSystemHooks(manager);
+
+      function Starter() {
+        const status = useSystemStatus();
+        return (
+          <button data-testid="start" onClick={status.startSystem}>
+            Start
+          </button>
+        );
+      }
+
+      function Observer() {
+        const status = useSystemStatus();
+        return <div data-testid="observer">{status.status}</div>;
+      }
+
+      render(
+        <>
+          <Starter />
+          <Observer />
+        </>
+      );
+
+      expect(screen.getByTestId("observer").textContent).toBe("idle");
+
+      act(() => {
+        screen.getByTestId("start").click();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("observer").textContent).toBe("ready");
+      });
+    });
+
+    test("reflects destroySystem called outside React", async () => {
+      const manager = createSystemManager(testSystemConfig);
+      const { useSystemStatus } = createSystemHooks(manager);
+
+      await manager.getSystem();
+
+      function TestComponent() {
+        const status = useSystemStatus();
+        return (
+          <div>
+            <div data-testid="ready">{status.isReady.toString()}</div>
+            <div data-testid="idle">{status.isIdle.toString()}</div>
+          </div>
+        );
+      }
+
+      render(<TestComponent />);
+
+      expect(screen.getByTestId("ready").textContent).toBe("true");
+
+      await act(async () => {
+        await manager.destroySystem();
+      });
+
+      expect(screen.getByTestId("ready").textContent).toBe("false");
+      expect(screen.getByTestId("idle").textContent).toBe("true");
+    });
+
+    test("halt stops the system", async () => {
+      const manager = createSystemManager(testSystemConfig);
+      const { useSystemStatus } = createSystemHooks(manager);
+
+      await manager.getSystem();
+
+      function TestComponent() {
+        const status = useSystemStatus();
+        return (
+          <div>
+            <div data-testid="status">{status.status}</div>
+            <button data-testid="halt" onClick={status.halt}>
+              Halt
+            </button>
+          </div>
+        );
+      }
+
+      render(<TestComponent />);
+
+      act(() => {
+        screen.getByTestId("halt").click();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("status").textContent).toBe("halted");
+      });
+      expect(manager.isStarted()).toBe(false);
+    });
+
+    test("restart starts a fresh system", async () => {
+      const manager = createSystemManager(testSystemConfig);
+      const { useSystemStatus } = createSystemHooks(manager);
+
+      const system = await manager.getSystem();
+      system.counter.increment();
+
+      function TestComponent() {
+        const status = useSystemStatus();
+        return (
+          <div>
+            <div data-testid="count">{status.system?.counter.count}</div>
+            <button data-testid="restart" onClick={status.restart}>
+              Restart
+            </button>
+          </div>
+        );
+      }
+
+      render(<TestComponent />);
+
+      expect(screen.getByTestId("count").textContent).toBe("1");
+
+      act(() => {
+        screen.getByTestId("restart").click();
+      });
+
+      await waitFor(() => {
+        expect(manager.getCurrentSystem()).not.toBe(null);
+        expect(manager.getCurrentSystem()).not.toBe(system);
+      });
+      expect(screen.getByTestId("count").textContent).toBe("0");
+    });
+
     test("returns ready immediately when context is provided", async () => {
       const manager = createSystemManager(testSystemConfig);
       const { SystemProvider, useSystemStatus } = createSystemHooks(manager);
@@ -488,6 +1998,61 @@ describe("createSystemHooks", () => {
       console.error = originalError;
     });
 
+    test("ErrorBoundary receives a structured SystemStartupError", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const connectionError = new Error("Connection refused");
+      const manager = createSystemManager({
+        db: defineResource({
+          start: (): any => {
+            throw connectionError;
+          },
+          halt: () => {},
+        }),
+        api: defineResource({
+          dependencies: ["db"],
+          start: () => ({}),
+          halt: () => {},
+        }),
+      });
+      const { useSystem } = createSystemHooks(manager);
+      let caught: unknown;
+
+      function App() {
+        useSystem();
+        return <div>App</div>;
+      }
+
+      function ErrorFallback({ error }: { error: Error }) {
+        caught = error;
+        return <div data-testid="error-fallback">{error.name}</div>;
+      }
+
+      render(
+        <ErrorBoundary FallbackComponent={ErrorFallback}>
+          <Suspense fallback={<div>Loading...</div>}>
+            <App />
+          </Suspense>
+        </ErrorBoundary>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("error-fallback").textContent).toBe(
+          "SystemStartupError"
+        );
+      });
+
+      expect(isSystemStartupError(caught)).toBe(true);
+      const error = caught as SystemStartupError;
+      expect(error.failedResources).toEqual(["db"]);
+      expect(error.skippedResources).toEqual(["api"]);
+      expect(error.errors.get("db")).toBe(connectionError);
+      expect(error.cause).toBe(connectionError);
+
+      consoleErrorSpy.mockRestore();
+    });
+
     test("ErrorBoundary with custom error UI", async () => {
       const apiFailureResource = defineResource({
         start: (): any => {
@@ -646,6 +2211,139 @@ describe("createSystemHooks", () => {
       console.error = originalError;
     });
 
+    test("keeps suspending during automatic retries", async () => {
+      let attempts = 0;
+      const manager = createSystemManager(
+        {
+          flakey: defineResource({
+            start: (): any => {
+              attempts++;
+              if (attempts < 3) {
+                throw new Error("Network timeout");
+              }
+              return { attempt: attempts };
+            },
+            halt: () => {},
+          }),
+        },
+        { retry: { maxAttempts: 3, initialDelayMs: 1 } }
+      );
+      const { useSystem } = createSystemHooks(manager);
+
+      function App() {
+        const system = useSystem();
+        return <div data-testid="success">{system.flakey.attempt}</div>;
+      }
+
+      const originalWarn = console.warn;
+      console.warn = () => {};
+
+      render(
+        <ErrorBoundary
+          fallback={<div data-testid="error-fallback">Failed</div>}
+        >
+          <Suspense fallback={<div data-testid="loading">Loading...</div>}>
+            <App />
+          </Suspense>
+        </ErrorBoundary>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("success").textContent).toBe("3");
+      });
+      expect(screen.queryByTestId("error-fallback")).toBeNull();
+
+      console.warn = originalWarn;
+    });
+
+    test("throws to ErrorBoundary once retries are exhausted", async () => {
+      const manager = createSystemManager(
+        {
+          flakey: defineResource({
+            start: (): any => {
+              throw new Error("Network timeout");
+            },
+            halt: () => {},
+          }),
+        },
+        { retry: { maxAttempts: 2, initialDelayMs: 1 } }
+      );
+      const { useSystem } = createSystemHooks(manager);
+
+      function App() {
+        useSystem();
+        return <div>App</div>;
+      }
+
+      const originalError = console.error;
+      const originalWarn = console.warn;
+      console.error = () => {};
+      console.warn = () => {};
+
+      render(
+        <ErrorBoundary
+          fallback={<div data-testid="error-fallback">Failed</div>}
+        >
+          <Suspense fallback={<div data-testid="loading">Loading...</div>}>
+            <App />
+          </Suspense>
+        </ErrorBoundary>
+      );
+
+      expect(screen.getByTestId("loading")).toBeDefined();
+
+      await waitFor(() => {
+        expect(screen.getByTestId("error-fallback")).toBeDefined();
+      });
+      expect(manager.getState().status).toBe("failed");
+
+      console.error = originalError;
+      console.warn = originalWarn;
+    });
+
+    test("startup timeout reaches the ErrorBoundary", async () => {
+      const manager = createSystemManager(
+        {
+          socket: defineResource({
+            start: () => new Promise<{ ok: boolean }>(() => {}),
+            halt: () => {},
+          }),
+        },
+        { startTimeoutMs: 20 }
+      );
+      const { useSystem } = createSystemHooks(manager);
+
+      function App() {
+        useSystem();
+        return <div>App</div>;
+      }
+
+      function ErrorFallback({ error }: { error: Error }) {
+        return <div data-testid="error-fallback">{error.name}</div>;
+      }
+
+      const originalError = console.error;
+      console.error = () => {};
+
+      render(
+        <ErrorBoundary FallbackComponent={ErrorFallback}>
+          <Suspense fallback={<div data-testid="loading">Loading...</div>}>
+            <App />
+          </Suspense>
+        </ErrorBoundary>
+      );
+
+      expect(screen.getByTestId("loading")).toBeDefined();
+
+      await waitFor(() => {
+        expect(screen.getByTestId("error-fallback").textContent).toBe(
+          "SystemStartTimeoutError"
+        );
+      });
+
+      console.error = originalError;
+    });
+
     test("Nested ErrorBoundaries for granular error handling", async () => {
       const criticalResource = defineResource({
         start: (): any => {
@@ -720,3 +2418,247 @@ describe("createSystemHooks", () => {
     });
   });
 });
+
+describe("createFamilyHooks", () => {
+  function createRoomConfig(roomId: string) {
+    return {
+      room: defineResource({
+        start: async () => {
+          if (roomId === "broken") {
+            throw new Error(`Room ${roomId} unavailable`);
+          }
+          return { roomId };
+        },
+        halt: () => {},
+      }),
+    };
+  }
+
+  test("useResource suspends and resolves per key", async () => {
+    const family = createSystemFamily(createRoomConfig);
+    const { useResource } = createFamilyHooks(family);
+
+    function Room({ roomId }: { roomId: string }) {
+      const room = useResource(roomId, "room");
+      return <div data-testid={`room-${roomId}`}>{room.roomId}</div>;
+    }
+
+    render(
+      <Suspense fallback={<div data-testid="loading">Loading...</div>}>
+        <Room roomId="a" />
+        <Room roomId="b" />
+      </Suspense>
+    );
+
+    expect(screen.getByTestId("loading")).toBeDefined();
+
+    await waitFor(() => {
+      expect(screen.getByTestId("room-a").textContent).toBe("a");
+      expect(screen.getByTestId("room-b").textContent).toBe("b");
+    });
+
+    expect(family.keys()).toEqual(["a", "b"]);
+  });
+
+  test("a failing key reaches its own ErrorBoundary", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const family = createSystemFamily(createRoomConfig);
+    const { useSystem } = createFamilyHooks(family);
+
+    function Room({ roomId }: { roomId: string }) {
+      const system = useSystem(roomId);
+      return <div data-testid={`room-${roomId}`}>{system.room.roomId}</div>;
+    }
+
+    function ErrorFallback({ error }: { error: Error }) {
+      return <div data-testid="error-message">{error.message}</div>;
+    }
+
+    render(
+      <>
+        <ErrorBoundary FallbackComponent={ErrorFallback}>
+          <Suspense fallback={<div>Loading...</div>}>
+            <Room roomId="broken" />
+          </Suspense>
+        </ErrorBoundary>
+        <Suspense fallback={<div>Loading...</div>}>
+          <Room roomId="ok" />
+        </Suspense>
+      </>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId("error-message").textContent).toContain(
+        "Room broken unavailable"
+      );
+      expect(screen.getByTestId("room-ok").textContent).toBe("ok");
+    });
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  test("useResourceState reads a key's store resource", async () => {
+    const family = createSystemFamily((roomId: string) => ({
+      presence: defineResource({
+        start: () => ({
+          subscribe: () => () => {},
+          getSnapshot: () => `${roomId}: 3 online`,
+        }),
+        halt: () => {},
+      }),
+    }));
+    const { useResourceState } = createFamilyHooks(family);
+
+    function Presence({ roomId }: { roomId: string }) {
+      const presence = useResourceState(roomId, "presence");
+      return <div data-testid={`presence-${roomId}`}>{presence}</div>;
+    }
+
+    render(
+      <Suspense fallback={<div>Loading...</div>}>
+        <Presence roomId="a" />
+      </Suspense>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId("presence-a").textContent).toBe("a: 3 online");
+    });
+  });
+
+  test("useResourceStore reads a key's state store", async () => {
+    const family = createSystemFamily((roomId: string) => ({
+      messages: defineStoreResource({
+        start: () => ({
+          subscribe: () => () => {},
+          getState: () => ({ roomId, unread: 2 }),
+        }),
+      }),
+    }));
+    const { useResourceStore } = createFamilyHooks(family);
+
+    function Unread({ roomId }: { roomId: string }) {
+      const unread = useResourceStore(
+        roomId,
+        "messages",
+        (state) => `${state.roomId}: ${state.unread} unread`
+      );
+      return <div data-testid={`unread-${roomId}`}>{unread}</div>;
+    }
+
+    render(
+      <Suspense fallback={<div>Loading...</div>}>
+        <Unread roomId="a" />
+      </Suspense>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId("unread-a").textContent).toBe("a: 2 unread");
+    });
+  });
+
+  test("mounting more keys than maxSize doesn't evict mounted keys", async () => {
+    let starts = 0;
+    const family = createSystemFamily(
+      (roomId: string) => ({
+        room: defineResource({
+          start: async () => {
+            starts++;
+            return { roomId };
+          },
+          halt: () => {},
+        }),
+      }),
+      { maxSize: 1 }
+    );
+    const { useResource } = createFamilyHooks(family);
+
+    function Room({ roomId }: { roomId: string }) {
+      const room = useResource(roomId, "room");
+      return <div data-testid={`room-${roomId}`}>{room.roomId}</div>;
+    }
+
+    const { rerender } = render(
+      <Suspense fallback={<div>Loading...</div>}>
+        <Room roomId="a" />
+        <Room roomId="b" />
+      </Suspense>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId("room-a").textContent).toBe("a");
+      expect(screen.getByTestId("room-b").textContent).toBe("b");
+    });
+    expect(starts).toBe(2);
+
+    // Once a key unmounts, the next new key evicts it
+    rerender(
+      <Suspense fallback={<div>Loading...</div>}>
+        <Room roomId="b" />
+      </Suspense>
+    );
+    rerender(
+      <Suspense fallback={<div>Loading...</div>}>
+        <Room roomId="b" />
+        <Room roomId="c" />
+      </Suspense>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId("room-c").textContent).toBe("c");
+    });
+    expect(starts).toBe(3);
+    expect(family.has("a")).toBe(false);
+    expect(family.keys()).toEqual(["b", "c"]);
+  });
+
+  test("useOptionalResource reads a key's resource without suspending", async () => {
+    const family = createSystemFamily(createRoomConfig);
+    const { useOptionalResource, useResourceStatus } =
+      createFamilyHooks(family);
+
+    function Room({ roomId }: { roomId: string }) {
+      const room = useOptionalResource(roomId, "room");
+      const { status } = useResourceStatus(roomId, "room");
+      return (
+        <div data-testid={`room-${roomId}`}>
+          {room ? room.roomId : "none"} {status}
+        </div>
+      );
+    }
+
+    await family.get("a").getSystem();
+    render(
+      <>
+        <Room roomId="a" />
+        <Room roomId="b" />
+      </>
+    );
+
+    expect(screen.getByTestId("room-a").textContent).toBe("a started");
+    expect(screen.getByTestId("room-b").textContent).toBe("none idle");
+  });
+
+  test("useSystemStatus follows the key", async () => {
+    const family = createSystemFamily(createRoomConfig);
+    const { useSystemStatus } = createFamilyHooks(family);
+
+    function Status({ roomId }: { roomId: string }) {
+      const { isReady, isIdle } = useSystemStatus(roomId);
+      return (
+        <div data-testid="status">
+          {isReady ? "ready" : isIdle ? "idle" : "other"}
+        </div>
+      );
+    }
+
+    await family.get("a").getSystem();
+
+    const { rerender } = render(<Status roomId="a" />);
+    expect(screen.getByTestId("status").textContent).toBe("ready");
+
+    rerender(<Status roomId="b" />);
+    expect(screen.getByTestId("status").textContent).toBe("idle");
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Tests for hot module replacement support in createSystemManager
+ */
+
+import { describe, expect, test, vi } from "vitest";
+import { defineResource } from "braided";
+import { createSystemManager } from "../manager";
+import type { HotModule } from "../hot";
+
+/**
+ * Fake hot module API: every call to load() is a new version of the module,
+ * receiving the data written by the previous version's dispose callbacks.
+ */
+function createHotRuntime() {
+  let disposeCallbacks: Array<(data: Record<string, any>) => void> = [];
+  let data: Record<string, any> = {};
+
+  return {
+    load(): HotModule {
+      const nextData: Record<string, any> = {};
+      for (const callback of disposeCallbacks) {
+        callback(nextData);
+      }
+      disposeCallbacks = [];
+      data = nextData;
+
+      return {
+        data,
+        dispose: (callback) => {
+          disposeCallbacks.push(callback);
+        },
+      };
+    },
+  };
+}
+
+describe("hot module replacement", () => {
+  function tracked(name: string, events: string[]) {
+    return defineResource({
+      start: () => {
+        events.push(`start ${name}`);
+        return { name };
+      },
+      halt: () => {
+        events.push(`halt ${name}`);
+      },
+    });
+  }
+
+  test("works normally on first load", async () => {
+    const runtime = createHotRuntime();
+    const events: string[] = [];
+    const manager = createSystemManager(
+      { store: tracked("store", events) },
+      { hot: runtime.load() }
+    );
+
+    const system = await manager.getSystem();
+
+    expect(system.store.name).toBe("store");
+    expect(events).toEqual(["start store"]);
+  });
+
+  test("hands the running system to the new module", async () => {
+    const runtime = createHotRuntime();
+    const events: string[] = [];
+    const store = tracked("store", events);
+
+    const oldManager = createSystemManager(
+      { store, worker: tracked("worker v1", events) },
+      { hot: runtime.load() }
+    );
+    const oldSystem = await oldManager.getSystem();
+
+    // Module re-evaluated: store is the same object, worker was edited
+    const newManager = createSystemManager(
+      { store, worker: tracked("worker v2", events) },
+      { hot: runtime.load() }
+    );
+    const newSystem = await vi.waitFor(() => {
+      const system = newManager.getCurrentSystem();
+      expect(system?.worker.name).toBe("worker v2");
+      return system!;
+    });
+
+    expect(newSystem.store).toBe(oldSystem.store);
+    expect(events).toEqual([
+      "start store",
+      "start worker v1",
+      "halt worker v1",
+      "start worker v2",
+    ]);
+    expect(newManager.getState().status).toBe("ready");
+  });
+
+  test("disposes the old manager", async () => {
+    const runtime = createHotRuntime();
+    const events: string[] = [];
+    const config = { store: tracked("store", events) };
+
+    const oldManager = createSystemManager(config, { hot: runtime.load() });
+    await oldManager.getSystem();
+
+    const newManager = createSystemManager(config, { hot: runtime.load() });
+    await newManager.getSystem();
+
+    await expect(oldManager.getSystem()).rejects.toThrow(
+      "replaced by a hot update"
+    );
+
+    // Destroying the old manager must not halt the adopted system
+    await oldManager.destroySystem();
+    expect(events).toEqual(["start store"]);
+    expect(newManager.isStarted()).toBe(true);
+  });
+
+  test("old manager listeners are dropped", async () => {
+    const runtime = createHotRuntime();
+    const config = { store: tracked("store", []) };
+    const listener = vi.fn();
+
+    const oldManager = createSystemManager(config, { hot: runtime.load() });
+    oldManager.subscribe(listener);
+    await oldManager.getSystem();
+    listener.mockClear();
+
+    createSystemManager(config, { hot: runtime.load() });
+    await oldManager.destroySystem();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("adopts a startup that is still in flight", async () => {
+    const runtime = createHotRuntime();
+    const events: string[] = [];
+    let release!: () => void;
+    const slow = defineResource({
+      start: async () => {
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+        events.push("start slow");
+        return { ready: true };
+      },
+      halt: () => {},
+    });
+
+    const oldManager = createSystemManager({ slow }, { hot: runtime.load() });
+    oldManager.getSystem();
+
+    const newManager = createSystemManager({ slow }, { hot: runtime.load() });
+    expect(newManager.getState().status).toBe("starting");
+
+    const pending = newManager.getSystem();
+    await vi.waitFor(() => expect(release).toBeDefined());
+    release();
+
+    const system = await pending;
+    expect(system.slow.ready).toBe(true);
+    expect(events).toEqual(["start slow"]);
+  });
+
+  test("starts fresh when the old manager was not running", async () => {
+    const runtime = createHotRuntime();
+    const events: string[] = [];
+
+    createSystemManager(
+      { store: tracked("store v1", events) },
+      { hot: runtime.load() }
+    );
+
+    const newManager = createSystemManager(
+      { store: tracked("store v2", events) },
+      { hot: runtime.load() }
+    );
+
+    expect(newManager.getState().status).toBe("idle");
+
+    const system = await newManager.getSystem();
+    expect(system.store.name).toBe("store v2");
+    expect(events).toEqual(["start store v2"]);
+  });
+
+  test("waits for a halt that was in flight", async () => {
+    const runtime = createHotRuntime();
+    const events: string[] = [];
+    const config = { store: tracked("store", events) };
+
+    const oldManager = createSystemManager(config, { hot: runtime.load() });
+    await oldManager.getSystem();
+    const halting = oldManager.destroySystem();
+
+    const newManager = createSystemManager(config, { hot: runtime.load() });
+    await newManager.getSystem();
+    await halting;
+
+    expect(events).toEqual(["start store", "halt store", "start store"]);
+  });
+
+  test("separate hot keys keep managers apart", async () => {
+    const runtime = createHotRuntime();
+    const events: string[] = [];
+    const a = { a: tracked("a", events) };
+    const b = { b: tracked("b", events) };
+
+    const hot = runtime.load();
+    const oldA = createSystemManager(a, { hot, hotKey: "a" });
+    const oldB = createSystemManager(b, { hot, hotKey: "b" });
+    await Promise.all([oldA.getSystem(), oldB.getSystem()]);
+
+    const nextHot = runtime.load();
+    const newA = createSystemManager(a, { hot: nextHot, hotKey: "a" });
+    const newB = createSystemManager(b, { hot: nextHot, hotKey: "b" });
+
+    const [systemA, systemB] = await Promise.all([
+      newA.getSystem(),
+      newB.getSystem(),
+    ]);
+
+    expect(systemA.a.name).toBe("a");
+    expect(systemB.b.name).toBe("b");
+    expect(events).toEqual(["start a", "start b"]);
+  });
+});
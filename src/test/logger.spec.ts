@@ -0,0 +1,143 @@
+/**
+ * Tests for the manager loggers
+ */
+
+import { describe, expect, test, vi } from "vitest";
+import { defineResource } from "braided";
+import { createSystemManager } from "../manager";
+import { createConsoleLogger, createSilentLogger } from "../logger";
+import type { Logger } from "../logger";
+
+describe("loggers", () => {
+  function createRecordingLogger() {
+    const entries: Array<[string, string]> = [];
+    const logger: Logger = {
+      debug: (message) => entries.push(["debug", message]),
+      info: (message) => entries.push(["info", message]),
+      warn: (message) => entries.push(["warn", message]),
+      error: (message) => entries.push(["error", message]),
+    };
+    return { logger, entries };
+  }
+
+  const config = {
+    db: defineResource({ start: () => ({}), halt: () => {} }),
+    api: defineResource({
+      dependencies: ["db"],
+      start: () => ({}),
+      halt: () => {},
+    }),
+  };
+
+  const failingConfig = {
+    failing: defineResource({
+      start: (): any => {
+        throw new Error("Startup failed");
+      },
+      halt: () => {},
+    }),
+  };
+
+  describe("createConsoleLogger", () => {
+    test("prints warnings and errors with the prefix by default", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+      const logger = createConsoleLogger();
+
+      logger.warn("Careful", 42);
+      logger.debug("Hidden");
+
+      expect(warnSpy).toHaveBeenCalledWith("[braided-react] Careful", 42);
+      expect(debugSpy).not.toHaveBeenCalled();
+
+      warnSpy.mockRestore();
+      debugSpy.mockRestore();
+    });
+
+    test("respects level and prefix", () => {
+      const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+      const logger = createConsoleLogger({ level: "debug", prefix: "[app]" });
+
+      logger.debug("Visible");
+
+      expect(debugSpy).toHaveBeenCalledWith("[app] Visible");
+
+      debugSpy.mockRestore();
+    });
+  });
+
+  describe("manager logger option", () => {
+    test("logs startup errors through the logger", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const { logger, entries } = createRecordingLogger();
+      const manager = createSystemManager(failingConfig, { logger });
+
+      await manager.getSystem();
+
+      expect(entries).toContainEqual([
+        "error",
+        "System startup completed with 1 error(s):",
+      ]);
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("logs transitions at debug level", async () => {
+      const { logger, entries } = createRecordingLogger();
+      const manager = createSystemManager(config, { logger });
+
+      await manager.getSystem();
+      await manager.destroySystem();
+
+      const debug = entries
+        .filter(([level]) => level === "debug")
+        .map(([, message]) => message);
+
+      expect(debug[0]).toBe("Starting resources: db, api");
+      expect(debug).toContainEqual(
+        expect.stringMatching(/^Resource "db" started in \d+ms$/)
+      );
+      expect(debug).toContain("Halting resources: db, api");
+    });
+
+    test("logs plugin failures through the logger", async () => {
+      const { logger, entries } = createRecordingLogger();
+      const manager = createSystemManager(config, {
+        logger,
+        plugins: [
+          {
+            name: "broken",
+            onStartComplete: () => {
+              throw new Error("Plugin bug");
+            },
+          },
+        ],
+      });
+
+      await manager.getSystem();
+
+      expect(entries).toContainEqual([
+        "error",
+        'Plugin "broken" failed in onStartComplete:',
+      ]);
+    });
+
+    test("createSilentLogger discards everything", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager(failingConfig, {
+        logger: createSilentLogger(),
+      });
+
+      await manager.getSystem();
+
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+});
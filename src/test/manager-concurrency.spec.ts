@@ -0,0 +1,314 @@
+/**
+ * Tests for createSystemManager concurrency (start/halt races)
+ */
+
+import { describe, expect, test, vi } from "vitest";
+import { defineResource } from "braided";
+import { createSystemManager } from "../manager";
+
+describe("createSystemManager concurrency", () => {
+  function deferred<T = void>() {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>((r) => {
+      resolve = r;
+    });
+    return { promise, resolve };
+  }
+
+  function createConnectionConfig(options: {
+    startGate?: Promise<void>;
+    haltGate?: Promise<void>;
+    halt?: (conn: { id: number }) => void;
+  }) {
+    let generation = 0;
+
+    return {
+      conn: defineResource({
+        start: async () => {
+          const id = ++generation;
+          await options.startGate;
+          return { id };
+        },
+        halt: async (conn) => {
+          await options.haltGate;
+          options.halt?.(conn);
+        },
+      }),
+    };
+  }
+
+  describe("destroySystem during startup", () => {
+    test("waits for the startup and then halts", async () => {
+      const gate = deferred();
+      const halt = vi.fn();
+      const manager = createSystemManager(
+        createConnectionConfig({ startGate: gate.promise, halt })
+      );
+
+      const starting = manager.getSystem();
+      const destroying = manager.destroySystem();
+
+      expect(manager.getState().status).toBe("starting");
+
+      gate.resolve();
+      const system = await starting;
+      await destroying;
+
+      expect(halt).toHaveBeenCalledWith(system.conn);
+      expect(manager.getState().status).toBe("halted");
+      expect(manager.isStarted()).toBe(false);
+    });
+
+    test("the system does not come up afterwards", async () => {
+      const gate = deferred();
+      const manager = createSystemManager(
+        createConnectionConfig({ startGate: gate.promise })
+      );
+      const statuses: string[] = [];
+
+      manager.subscribe((state) => {
+        statuses.push(state.status);
+      });
+
+      manager.getSystem();
+      const destroying = manager.destroySystem();
+
+      gate.resolve();
+      await destroying;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(statuses).toEqual(["starting", "ready", "halting", "halted"]);
+      expect(manager.getCurrentSystem()).toBe(null);
+    });
+
+    test("halts a startup that ended degraded", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const halt = vi.fn();
+      const manager = createSystemManager({
+        ok: defineResource({ start: () => ({ ok: true }), halt }),
+        failing: defineResource({
+          start: (): any => {
+            throw new Error("Intentional failure");
+          },
+          halt: () => {},
+        }),
+      });
+
+      manager.getSystem();
+      await manager.destroySystem();
+
+      expect(halt).toHaveBeenCalledTimes(1);
+      expect(manager.getState().status).toBe("halted");
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("resets a startup that threw", async () => {
+      const manager = createSystemManager({
+        a: defineResource({
+          dependencies: ["b"],
+          start: () => ({}),
+          halt: () => {},
+        }),
+        b: defineResource({
+          dependencies: ["a"],
+          start: () => ({}),
+          halt: () => {},
+        }),
+      });
+
+      const starting = manager.getSystem();
+      const destroying = manager.destroySystem();
+
+      await expect(starting).rejects.toThrow("Circular dependency");
+      await destroying;
+
+      expect(manager.getState()).toEqual({
+        status: "halted",
+        system: null,
+        errors: null,
+        error: null,
+        restarting: null,
+      });
+    });
+  });
+
+  describe("concurrent destroySystem calls", () => {
+    test("share one promise and halt once", async () => {
+      const gate = deferred();
+      const halt = vi.fn();
+      const manager = createSystemManager(
+        createConnectionConfig({ haltGate: gate.promise, halt })
+      );
+
+      await manager.getSystem();
+
+      const first = manager.destroySystem();
+      const second = manager.destroySystem();
+
+      expect(second).toBe(first);
+
+      gate.resolve();
+      await Promise.all([first, second]);
+
+      expect(halt).toHaveBeenCalledTimes(1);
+    });
+
+    test("share one promise while startup is in flight", async () => {
+      const gate = deferred();
+      const halt = vi.fn();
+      const manager = createSystemManager(
+        createConnectionConfig({ startGate: gate.promise, halt })
+      );
+
+      manager.getSystem();
+
+      const first = manager.destroySystem();
+      const second = manager.destroySystem();
+
+      expect(second).toBe(first);
+
+      gate.resolve();
+      await first;
+
+      expect(halt).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("getSystem during halt", () => {
+    test("queues a fresh start instead of returning the halting instance", async () => {
+      const gate = deferred();
+      const manager = createSystemManager(
+        createConnectionConfig({ haltGate: gate.promise })
+      );
+
+      const original = await manager.getSystem();
+      const destroying = manager.destroySystem();
+
+      const next = manager.getSystem();
+      expect(manager.getState().status).toBe("halting");
+
+      gate.resolve();
+      await destroying;
+      const fresh = await next;
+
+      expect(fresh).not.toBe(original);
+      expect(fresh.conn.id).toBe(2);
+      expect(manager.getState().status).toBe("ready");
+    });
+
+    test("queues a fresh start after a destroy that waits for startup", async () => {
+      const gate = deferred();
+      const manager = createSystemManager(
+        createConnectionConfig({ startGate: gate.promise })
+      );
+
+      const first = manager.getSystem();
+      const destroying = manager.destroySystem();
+      const second = manager.getSystem();
+
+      gate.resolve();
+      const [original, , fresh] = await Promise.all([
+        first,
+        destroying,
+        second,
+      ]);
+
+      expect(original.conn.id).toBe(1);
+      expect(fresh.conn.id).toBe(2);
+      expect(manager.getCurrentSystem()).toBe(fresh);
+    });
+
+    test("concurrent getSystem calls during halt share the fresh start", async () => {
+      const gate = deferred();
+      const manager = createSystemManager(
+        createConnectionConfig({ haltGate: gate.promise })
+      );
+
+      await manager.getSystem();
+      manager.destroySystem();
+
+      const pending = [manager.getSystem(), manager.getSystem()];
+
+      gate.resolve();
+      const [a, b] = await Promise.all(pending);
+
+      expect(a).toBe(b);
+      expect(a.conn.id).toBe(2);
+    });
+  });
+
+  describe("restartResource races", () => {
+    test("rejects cleanly when destroySystem is called before it runs", async () => {
+      const halted: number[] = [];
+      const manager = createSystemManager(
+        createConnectionConfig({ halt: (conn) => halted.push(conn.id) })
+      );
+      await manager.getSystem();
+
+      const restarting = manager.restartResource("conn");
+      const destroying = manager.destroySystem();
+
+      await expect(restarting).rejects.toThrow(
+        "Restart cancelled: the system was halted before it could run"
+      );
+      await destroying;
+
+      expect(manager.getState().status).toBe("halted");
+      expect(halted).toEqual([1]);
+    });
+
+    test("aborting getSystem during a restart doesn't halt the running system", async () => {
+      const gate = deferred();
+      const halted: string[] = [];
+      const manager = createSystemManager({
+        db: defineResource({
+          start: () => ({ name: "db" }),
+          halt: () => {
+            halted.push("db");
+          },
+        }),
+        socket: defineResource({
+          start: () => ({ name: "socket" }),
+          halt: async () => {
+            await gate.promise;
+            halted.push("socket");
+          },
+        }),
+      });
+      const { db } = await manager.getSystem();
+
+      const restarting = manager.restartResource("socket");
+      await vi.waitFor(() => expect(manager.getState().status).toBe("starting"));
+
+      const controller = new AbortController();
+      const waiting = manager.getSystem({ signal: controller.signal });
+      controller.abort(new Error("navigated away"));
+
+      gate.resolve();
+      const system = await restarting;
+      await waiting;
+
+      expect(halted).toEqual(["socket"]);
+      expect(system.db).toBe(db);
+      expect(manager.getState().status).toBe("ready");
+    });
+
+    test("concurrent restarts run one after the other", async () => {
+      const manager = createSystemManager(createConnectionConfig({}));
+      await manager.getSystem();
+
+      const [first, second] = await Promise.all([
+        manager.restartResource("conn"),
+        manager.restartResource("conn"),
+      ]);
+
+      expect(first.conn.id).toBe(2);
+      expect(second.conn.id).toBe(3);
+      expect(manager.getCurrentSystem()).toBe(second);
+      expect(manager.getState().status).toBe("ready");
+    });
+  });
+});
@@ -5,6 +5,13 @@
 import { describe, expect, test, vi } from "vitest";
 import { defineResource } from "braided";
 import { createSystemManager } from "../manager";
+import {
+  SystemStartTimeoutError,
+  SystemStartupError,
+  isSystemHaltError,
+  isSystemStartTimeoutError,
+} from "../errors";
+import { createSilentLogger } from "../logger";
 
 describe("createSystemManager", () => {
   const counterResource = defineResource({
@@ -34,9 +41,21 @@ describe("createSystemManager", () => {
 
     expect(manager.getSystem).toBeDefined();
     expect(manager.destroySystem).toBeDefined();
+    expect(manager.restartSystem).toBeDefined();
+    expect(manager.restartResource).toBeDefined();
+    expect(manager.replaceConfig).toBeDefined();
+    expect(manager.retry).toBeDefined();
     expect(manager.getCurrentSystem).toBeDefined();
     expect(manager.getStartupErrors).toBeDefined();
+    expect(manager.getShutdownErrors).toBeDefined();
+    expect(manager.getMetrics).toBeDefined();
     expect(manager.isStarted).toBeDefined();
+    expect(manager.getState).toBeDefined();
+    expect(manager.subscribe).toBeDefined();
+    expect(manager.acquire).toBeDefined();
+    expect(manager.getRefCount).toBeDefined();
+    expect(manager.getStartupProgress).toBeDefined();
+    expect(manager.subscribeProgress).toBeDefined();
     expect(manager.config).toBeDefined();
   });
 
@@ -108,7 +127,10 @@ describe("createSystemManager", () => {
 
     expect(manager.isStarted()).toBe(false);
 
-    await expect(manager.destroySystem()).resolves.toBeUndefined();
+    await expect(manager.destroySystem()).resolves.toEqual({
+      errors: new Map(),
+      durations: new Map(),
+    });
 
     expect(manager.isStarted()).toBe(false);
   });
@@ -219,6 +241,1289 @@ describe("createSystemManager", () => {
     consoleErrorSpy.mockRestore();
   });
 
+  describe("lifecycle state", () => {
+    test("starts in idle state", () => {
+      const manager = createSystemManager(testConfig);
+
+      expect(manager.getState()).toEqual({
+        status: "idle",
+        system: null,
+        errors: null,
+        error: null,
+        restarting: null,
+      });
+    });
+
+    test("transitions idle -> starting -> ready -> halting -> halted", async () => {
+      const manager = createSystemManager(testConfig);
+      const statuses: string[] = [];
+
+      manager.subscribe((state) => {
+        statuses.push(state.status);
+      });
+
+      const system = await manager.getSystem();
+      expect(manager.getState().status).toBe("ready");
+      expect(manager.getState().system).toBe(system);
+
+      await manager.destroySystem();
+      expect(manager.getState().status).toBe("halted");
+      expect(manager.getState().system).toBe(null);
+
+      expect(statuses).toEqual(["starting", "ready", "halting", "halted"]);
+    });
+
+    test("halted system can be started again", async () => {
+      const manager = createSystemManager(testConfig);
+      const statuses: string[] = [];
+
+      await manager.getSystem();
+      await manager.destroySystem();
+
+      manager.subscribe((state) => {
+        statuses.push(state.status);
+      });
+
+      await manager.getSystem();
+
+      expect(statuses).toEqual(["starting", "ready"]);
+    });
+
+    test("listeners receive the new and previous state", async () => {
+      const manager = createSystemManager(testConfig);
+      const listener = vi.fn();
+
+      manager.subscribe(listener);
+      await manager.getSystem();
+
+      const [state, previous] = listener.mock.calls[1];
+      expect(previous.status).toBe("starting");
+      expect(state.status).toBe("ready");
+      expect(state).toBe(manager.getState());
+    });
+
+    test("state snapshot is stable between transitions", async () => {
+      const manager = createSystemManager(testConfig);
+
+      await manager.getSystem();
+
+      expect(manager.getState()).toBe(manager.getState());
+    });
+
+    test("unsubscribe stops notifications", async () => {
+      const manager = createSystemManager(testConfig);
+      const listener = vi.fn();
+
+      const unsubscribe = manager.subscribe(listener);
+      unsubscribe();
+
+      await manager.getSystem();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    test("reports failed when a critical resource fails", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      const manager = createSystemManager({
+        counter: counterResource,
+        failing: defineResource({
+          start: (): any => {
+            throw new Error("Intentional failure");
+          },
+          halt: () => {},
+        }),
+      });
+
+      const system = await manager.getSystem();
+
+      expect(manager.getState().status).toBe("failed");
+      expect(manager.getState().errors!.has("failing")).toBe(true);
+      // Graceful degradation: the rest of the system is still returned
+      expect(system.counter).toBeDefined();
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("reports degraded when only optional resources fail", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      const manager = createSystemManager(
+        {
+          counter: counterResource,
+          failing: defineResource({
+            start: (): any => {
+              throw new Error("Intentional failure");
+            },
+            halt: () => {},
+          }),
+        },
+        { optional: ["failing"] }
+      );
+
+      await manager.getSystem();
+
+      expect(manager.getState().status).toBe("degraded");
+      expect(manager.getState().errors!.has("failing")).toBe(true);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("reports failed when every resource fails", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      const manager = createSystemManager({
+        failing: defineResource({
+          start: (): any => {
+            throw new Error("Intentional failure");
+          },
+          halt: () => {},
+        }),
+      });
+
+      await manager.getSystem();
+
+      expect(manager.getState().status).toBe("failed");
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("reports failed with the error when startup throws", async () => {
+      const manager = createSystemManager({
+        a: defineResource({
+          dependencies: ["b"],
+          start: () => ({}),
+          halt: () => {},
+        }),
+        b: defineResource({
+          dependencies: ["a"],
+          start: () => ({}),
+          halt: () => {},
+        }),
+      });
+
+      await expect(manager.getSystem()).rejects.toThrow(
+        "Circular dependency"
+      );
+
+      expect(manager.getState().status).toBe("failed");
+      expect(manager.getState().error?.message).toContain(
+        "Circular dependency"
+      );
+    });
+  });
+
+  describe("restartSystem", () => {
+    test("starts the system when it was never started", async () => {
+      const manager = createSystemManager(testConfig);
+
+      const system = await manager.restartSystem();
+
+      expect(manager.getCurrentSystem()).toBe(system);
+      expect(manager.getState().status).toBe("ready");
+    });
+
+    test("halts the old system and starts a fresh one", async () => {
+      const halt = vi.fn();
+      const manager = createSystemManager({
+        counter: defineResource({
+          start: () => ({ count: 0 }),
+          halt,
+        }),
+      });
+      const statuses: string[] = [];
+
+      const system = await manager.getSystem();
+      system.counter.count = 5;
+
+      manager.subscribe((state) => {
+        statuses.push(state.status);
+      });
+
+      const restarted = await manager.restartSystem();
+
+      expect(restarted).not.toBe(system);
+      expect(restarted.counter.count).toBe(0);
+      expect(halt).toHaveBeenCalledWith(system.counter);
+      expect(statuses).toEqual(["halting", "halted", "starting", "ready"]);
+    });
+
+    test("transition mode keeps the previous system until the swap", async () => {
+      const events: string[] = [];
+      let generation = 0;
+      const manager = createSystemManager({
+        conn: defineResource({
+          start: async () => {
+            const id = ++generation;
+            events.push(`start ${id}`);
+            return { id };
+          },
+          halt: (conn) => {
+            events.push(`halt ${conn.id}`);
+          },
+        }),
+      });
+
+      const previous = await manager.getSystem();
+      const seen: Array<[string, number | undefined]> = [];
+
+      manager.subscribe((state) => {
+        seen.push([state.status, state.system?.conn.id]);
+      });
+
+      const restarted = await manager.restartSystem({ mode: "transition" });
+
+      expect(restarted.conn.id).toBe(2);
+      expect(manager.getCurrentSystem()).toBe(restarted);
+      expect(seen).toEqual([
+        ["starting", previous.conn.id],
+        ["ready", 2],
+      ]);
+      // New system starts before the previous one is halted
+      expect(events).toEqual(["start 1", "start 2", "halt 1"]);
+    });
+
+    test("recovers from a startup that threw", async () => {
+      let circular = true;
+      const manager = createSystemManager({
+        a: defineResource({
+          get dependencies() {
+            return circular ? ["b"] : [];
+          },
+          start: () => ({}),
+          halt: () => {},
+        }),
+        b: defineResource({
+          dependencies: ["a"],
+          start: () => ({}),
+          halt: () => {},
+        }),
+      });
+
+      await expect(manager.getSystem()).rejects.toThrow("Circular dependency");
+
+      circular = false;
+      await manager.restartSystem();
+
+      expect(manager.getState().status).toBe("ready");
+    });
+  });
+
+  describe("optional resources", () => {
+    const failingResource = defineResource({
+      start: (): { track: () => void } => {
+        throw new Error("Analytics unavailable");
+      },
+      halt: () => {},
+    });
+
+    test("exposes the optional resource ids", () => {
+      const manager = createSystemManager(
+        { counter: counterResource, analytics: failingResource },
+        { optional: ["analytics"] }
+      );
+
+      expect(manager.optional).toEqual(["analytics"]);
+      expect(createSystemManager(testConfig).optional).toEqual([]);
+    });
+
+    test("getCriticalErrors ignores optional resources", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager(
+        { counter: counterResource, analytics: failingResource },
+        { optional: ["analytics"] }
+      );
+
+      const system = await manager.getSystem();
+
+      expect(system.analytics).toBeUndefined();
+      expect(manager.getStartupErrors()!.size).toBe(1);
+      expect(manager.getCriticalErrors(manager.getStartupErrors()!).size).toBe(
+        0
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("a critical resource depending on a failed optional one fails the system", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager(
+        {
+          analytics: failingResource,
+          tracker: defineResource({
+            dependencies: ["analytics"],
+            start: () => ({}),
+            halt: () => {},
+          }),
+        },
+        { optional: ["analytics"] }
+      );
+
+      await manager.getSystem();
+
+      expect(manager.getState().status).toBe("failed");
+      expect(
+        Array.from(manager.getCriticalErrors(manager.getStartupErrors()!).keys())
+      ).toEqual(["tracker"]);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("optional failures are not retried", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const start = vi.fn(() => {
+        throw new Error("Analytics unavailable");
+      });
+      const manager = createSystemManager(
+        {
+          counter: counterResource,
+          analytics: defineResource({ start, halt: () => {} }),
+        },
+        { optional: ["analytics"], retry: { initialDelayMs: 1 } }
+      );
+
+      await manager.getSystem();
+
+      expect(start).toHaveBeenCalledTimes(1);
+      expect(manager.getState().status).toBe("degraded");
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("retry policy", () => {
+    function flakyResource(failures: number, attempts: { count: number }) {
+      return defineResource({
+        start: () => {
+          attempts.count++;
+          if (attempts.count <= failures) {
+            throw new Error(`Network timeout (attempt ${attempts.count})`);
+          }
+          return { attempt: attempts.count };
+        },
+        halt: () => {},
+      });
+    }
+
+    test("retries failed startup until it succeeds", async () => {
+      const consoleWarnSpy = vi
+        .spyOn(console, "warn")
+        .mockImplementation(() => {});
+      const attempts = { count: 0 };
+      const manager = createSystemManager(
+        { flaky: flakyResource(2, attempts) },
+        { retry: { maxAttempts: 3, initialDelayMs: 1, jitter: false } }
+      );
+      const statuses: string[] = [];
+
+      manager.subscribe((state) => {
+        statuses.push(state.status);
+      });
+
+      const system = await manager.getSystem();
+
+      expect(system.flaky.attempt).toBe(3);
+      expect(manager.getState().status).toBe("ready");
+      // Retries happen while the manager stays in "starting"
+      expect(statuses).toEqual(["starting", "ready"]);
+      expect(consoleWarnSpy).toHaveBeenCalledTimes(2);
+
+      consoleWarnSpy.mockRestore();
+    });
+
+    test("shouldRetry only sees failed resources, not skipped dependents", async () => {
+      const attempts = { count: 0 };
+      const shouldRetry = vi.fn(
+        (_error: Error, resourceId: string) => resourceId === "socket"
+      );
+      const manager = createSystemManager(
+        {
+          socket: flakyResource(1, attempts),
+          chat: defineResource({
+            dependencies: ["socket"],
+            start: ({ socket }: { socket: { attempt: number } }) => ({
+              socket,
+            }),
+            halt: () => {},
+          }),
+        },
+        {
+          retry: { maxAttempts: 2, initialDelayMs: 1, jitter: false, shouldRetry },
+          logger: createSilentLogger(),
+        }
+      );
+
+      const system = await manager.getSystem();
+
+      expect(system.chat.socket.attempt).toBe(2);
+      expect(manager.getState().status).toBe("ready");
+      expect(shouldRetry).toHaveBeenCalledTimes(1);
+      expect(shouldRetry).toHaveBeenCalledWith(expect.any(Error), "socket");
+    });
+
+    test("halts partially started systems between attempts", async () => {
+      const consoleWarnSpy = vi
+        .spyOn(console, "warn")
+        .mockImplementation(() => {});
+      const halt = vi.fn();
+      const attempts = { count: 0 };
+      const manager = createSystemManager(
+        {
+          stable: defineResource({ start: () => ({}), halt }),
+          flaky: flakyResource(1, attempts),
+        },
+        { retry: { initialDelayMs: 1 } }
+      );
+
+      await manager.getSystem();
+
+      expect(halt).toHaveBeenCalledTimes(1);
+
+      consoleWarnSpy.mockRestore();
+    });
+
+    test("settles with the last errors once attempts are exhausted", async () => {
+      const consoleWarnSpy = vi
+        .spyOn(console, "warn")
+        .mockImplementation(() => {});
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const attempts = { count: 0 };
+      const manager = createSystemManager(
+        { flaky: flakyResource(5, attempts) },
+        { retry: { maxAttempts: 2, initialDelayMs: 1 } }
+      );
+
+      await manager.getSystem();
+
+      expect(attempts.count).toBe(2);
+      expect(manager.getState().status).toBe("failed");
+      expect(manager.getStartupErrors()!.get("flaky")?.message).toBe(
+        "Network timeout (attempt 2)"
+      );
+
+      consoleWarnSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("does not retry errors rejected by shouldRetry", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const attempts = { count: 0 };
+      const shouldRetry = vi.fn(() => false);
+      const manager = createSystemManager(
+        { flaky: flakyResource(1, attempts) },
+        { retry: { initialDelayMs: 1, shouldRetry } }
+      );
+
+      await manager.getSystem();
+
+      expect(attempts.count).toBe(1);
+      expect(shouldRetry).toHaveBeenCalledWith(expect.any(Error), "flaky");
+      expect(manager.getState().status).toBe("failed");
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("does not retry without a retry policy", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const attempts = { count: 0 };
+      const manager = createSystemManager({
+        flaky: flakyResource(1, attempts),
+      });
+
+      await manager.getSystem();
+
+      expect(attempts.count).toBe(1);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("retry() starts a fresh attempt after exhaustion", async () => {
+      const consoleWarnSpy = vi
+        .spyOn(console, "warn")
+        .mockImplementation(() => {});
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const attempts = { count: 0 };
+      const manager = createSystemManager(
+        { flaky: flakyResource(2, attempts) },
+        { retry: { maxAttempts: 2, initialDelayMs: 1 } }
+      );
+
+      await manager.getSystem();
+      expect(manager.getState().status).toBe("failed");
+
+      const system = await manager.retry();
+
+      expect(system.flaky.attempt).toBe(3);
+      expect(manager.getState().status).toBe("ready");
+
+      consoleWarnSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("retry() returns the running system when healthy", async () => {
+      const manager = createSystemManager(testConfig);
+
+      const system = await manager.getSystem();
+
+      await expect(manager.retry()).resolves.toBe(system);
+    });
+  });
+
+  describe("startup timeout and cancellation", () => {
+    function deferred<T>() {
+      let resolve!: (value: T) => void;
+      const promise = new Promise<T>((r) => {
+        resolve = r;
+      });
+      return { promise, resolve };
+    }
+
+    test("fails with SystemStartTimeoutError when startup hangs", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const haltDb = vi.fn();
+      const manager = createSystemManager(
+        {
+          db: defineResource({ start: () => ({ name: "db" }), halt: haltDb }),
+          socket: defineResource({
+            dependencies: ["db"],
+            start: () => new Promise<{ connected: boolean }>(() => {}),
+            halt: () => {},
+          }),
+        },
+        { startTimeoutMs: 20 }
+      );
+
+      const error = await manager.getSystem().catch((e) => e);
+
+      expect(error).toBeInstanceOf(SystemStartTimeoutError);
+      expect(isSystemStartTimeoutError(error)).toBe(true);
+      expect(error.timeoutMs).toBe(20);
+      expect(manager.getState().status).toBe("failed");
+      expect(manager.getState().error).toBe(error);
+
+      // Resources that already started are halted in the background
+      await vi.waitFor(() => {
+        expect(haltDb).toHaveBeenCalledWith({ name: "db" });
+      });
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("halts a resource that finishes starting after the timeout", async () => {
+      const slow = deferred<{ id: string }>();
+      const halt = vi.fn();
+      const manager = createSystemManager(
+        { slow: defineResource({ start: () => slow.promise, halt }) },
+        { startTimeoutMs: 10 }
+      );
+
+      await expect(manager.getSystem()).rejects.toThrow("timed out after 10ms");
+
+      slow.resolve({ id: "late" });
+
+      await vi.waitFor(() => {
+        expect(halt).toHaveBeenCalledWith({ id: "late" });
+      });
+    });
+
+    test("does not time out when startup completes in time", async () => {
+      const manager = createSystemManager(testConfig, { startTimeoutMs: 50 });
+
+      await manager.getSystem();
+      await new Promise((resolve) => setTimeout(resolve, 60));
+
+      expect(manager.getState().status).toBe("ready");
+    });
+
+    test("restartSystem recovers after a timeout", async () => {
+      let hang = true;
+      const manager = createSystemManager(
+        {
+          socket: defineResource({
+            start: () =>
+              hang ? new Promise<{ ok: boolean }>(() => {}) : { ok: true },
+            halt: () => {},
+          }),
+        },
+        { startTimeoutMs: 10 }
+      );
+
+      await expect(manager.getSystem()).rejects.toThrow(
+        SystemStartTimeoutError
+      );
+
+      hang = false;
+      const system = await manager.restartSystem();
+
+      expect(system.socket.ok).toBe(true);
+      expect(manager.getState().status).toBe("ready");
+    });
+
+    test("aborting the signal cancels startup and resets the manager", async () => {
+      const socket = deferred<{ id: number }>();
+      const haltDb = vi.fn();
+      const haltSocket = vi.fn();
+      const manager = createSystemManager({
+        db: defineResource({ start: () => ({ name: "db" }), halt: haltDb }),
+        socket: defineResource({
+          dependencies: ["db"],
+          start: () => socket.promise,
+          halt: haltSocket,
+        }),
+      });
+      const controller = new AbortController();
+
+      const pending = manager.getSystem({ signal: controller.signal });
+      await vi.waitFor(() => {
+        // Wait until db has started and socket is in flight
+        expect(manager.getState().status).toBe("starting");
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      controller.abort(new Error("User navigated away"));
+
+      await expect(pending).rejects.toThrow("User navigated away");
+      await vi.waitFor(() => {
+        expect(manager.getState().status).toBe("halted");
+      });
+      expect(haltDb).toHaveBeenCalledWith({ name: "db" });
+
+      socket.resolve({ id: 1 });
+      await vi.waitFor(() => {
+        expect(haltSocket).toHaveBeenCalledWith({ id: 1 });
+      });
+    });
+
+    test("rejects immediately when the signal is already aborted", async () => {
+      const manager = createSystemManager(testConfig);
+      const controller = new AbortController();
+      controller.abort(new Error("Too late"));
+
+      await expect(
+        manager.getSystem({ signal: controller.signal })
+      ).rejects.toThrow("Too late");
+
+      expect(manager.getState().status).toBe("idle");
+    });
+
+    test("getSystem starts fresh after an aborted startup", async () => {
+      let hang = true;
+      const manager = createSystemManager({
+        socket: defineResource({
+          start: () =>
+            hang ? new Promise<{ ok: boolean }>(() => {}) : { ok: true },
+          halt: () => {},
+        }),
+      });
+      const controller = new AbortController();
+
+      const pending = manager.getSystem({ signal: controller.signal });
+      controller.abort();
+      await expect(pending).rejects.toThrow();
+
+      hang = false;
+      const system = await manager.getSystem();
+
+      expect(system.socket.ok).toBe(true);
+    });
+  });
+
+  describe("restartResource", () => {
+    function createChatConfig(events: string[]) {
+      let socketGeneration = 0;
+
+      const store = defineResource({
+        start: () => ({ items: [] as string[] }),
+        halt: () => {
+          events.push("halt store");
+        },
+      });
+
+      const socket = defineResource({
+        start: () => {
+          events.push("start socket");
+          return { generation: ++socketGeneration };
+        },
+        halt: () => {
+          events.push("halt socket");
+        },
+      });
+
+      const chat = defineResource({
+        dependencies: ["socket", "store"],
+        start: ({
+          socket,
+          store,
+        }: {
+          socket: { generation: number };
+          store: { items: string[] };
+        }) => {
+          events.push("start chat");
+          return { socket, store };
+        },
+        halt: () => {
+          events.push("halt chat");
+        },
+      });
+
+      const ui = defineResource({
+        dependencies: ["chat"],
+        start: ({ chat }: { chat: { socket: { generation: number } } }) => {
+          events.push("start ui");
+          return { chat };
+        },
+        halt: () => {
+          events.push("halt ui");
+        },
+      });
+
+      return { store, socket, chat, ui };
+    }
+
+    test("restarts the resource and its dependents in dependency order", async () => {
+      const events: string[] = [];
+      const manager = createSystemManager(createChatConfig(events));
+
+      const system = await manager.getSystem();
+      system.store.items.push("kept");
+      events.length = 0;
+
+      const restarted = await manager.restartResource("socket");
+
+      expect(events).toEqual([
+        "halt ui",
+        "halt chat",
+        "halt socket",
+        "start socket",
+        "start chat",
+        "start ui",
+      ]);
+      expect(restarted.socket.generation).toBe(2);
+      expect(restarted.chat.socket).toBe(restarted.socket);
+      expect(restarted.ui.chat).toBe(restarted.chat);
+    });
+
+    test("keeps unrelated resources alive", async () => {
+      const events: string[] = [];
+      const manager = createSystemManager(createChatConfig(events));
+
+      const system = await manager.getSystem();
+      system.store.items.push("kept");
+
+      const restarted = await manager.restartResource("socket");
+
+      expect(restarted.store).toBe(system.store);
+      expect(restarted.store.items).toEqual(["kept"]);
+      expect(restarted.chat.store).toBe(system.store);
+      expect(events).not.toContain("halt store");
+    });
+
+    test("notifies subscribers with a new system object", async () => {
+      const manager = createSystemManager(createChatConfig([]));
+
+      const system = await manager.getSystem();
+      const seen: Array<[string, unknown]> = [];
+
+      manager.subscribe((state) => {
+        seen.push([state.status, state.system]);
+      });
+
+      const restarted = await manager.restartResource("ui");
+
+      expect(restarted).not.toBe(system);
+      expect(seen).toEqual([
+        ["starting", system],
+        ["ready", restarted],
+      ]);
+    });
+
+    test("recovers a resource that failed to start", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      let fail = true;
+      const manager = createSystemManager({
+        counter: counterResource,
+        socket: defineResource({
+          start: () => {
+            if (fail) {
+              throw new Error("Connection refused");
+            }
+            return { connected: true };
+          },
+          halt: () => {},
+        }),
+      });
+
+      await manager.getSystem();
+      expect(manager.getState().status).toBe("failed");
+
+      fail = false;
+      const system = await manager.restartResource("socket");
+
+      expect(system.socket.connected).toBe(true);
+      expect(manager.getState().status).toBe("ready");
+      expect(manager.getStartupErrors()!.size).toBe(0);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("starts the system first when it isn't started", async () => {
+      const manager = createSystemManager(createChatConfig([]));
+
+      const system = await manager.restartResource("socket");
+
+      expect(manager.getCurrentSystem()).toBe(system);
+      expect(manager.getState().status).toBe("ready");
+    });
+
+    test("rejects unknown resources", async () => {
+      const manager = createSystemManager(testConfig);
+
+      await expect(
+        manager.restartResource("missing" as "counter")
+      ).rejects.toThrow('Unknown resource "missing"');
+    });
+  });
+
+  describe("replaceConfig", () => {
+    function tracked(name: string, events: string[], dependencies?: string[]) {
+      return defineResource({
+        dependencies,
+        start: () => {
+          events.push(`start ${name}`);
+          return { name };
+        },
+        halt: () => {
+          events.push(`halt ${name}`);
+        },
+      });
+    }
+
+    test("restarts only changed resources and their dependents", async () => {
+      const events: string[] = [];
+      const config = {
+        store: tracked("store", events),
+        flags: tracked("flags v1", events),
+        analytics: tracked("analytics", events, ["flags"]),
+      };
+      const manager = createSystemManager(config);
+
+      const system = await manager.getSystem();
+      events.length = 0;
+
+      const next = await manager.replaceConfig({
+        ...config,
+        flags: tracked("flags v2", events),
+      });
+
+      expect(events).toEqual([
+        "halt analytics",
+        "halt flags v1",
+        "start flags v2",
+        "start analytics",
+      ]);
+      expect(next!.store).toBe(system.store);
+      expect(next!.flags.name).toBe("flags v2");
+      expect(manager.getCurrentSystem()).toBe(next);
+      expect(manager.getState().status).toBe("ready");
+    });
+
+    test("starts added resources and halts removed ones", async () => {
+      const events: string[] = [];
+      const manager = createSystemManager<Record<string, any>>({
+        store: tracked("store", events),
+        legacy: tracked("legacy", events),
+      });
+
+      await manager.getSystem();
+      events.length = 0;
+
+      const next = await manager.replaceConfig({
+        store: manager.config.store,
+        modern: tracked("modern", events),
+      });
+
+      expect(events).toEqual(["halt legacy", "start modern"]);
+      expect(Object.keys(next!).sort()).toEqual(["modern", "store"]);
+    });
+
+    test("exposes the new config", async () => {
+      const manager = createSystemManager(testConfig);
+      const nextConfig = { counter: defineResource({ ...counterResource }) };
+
+      await manager.getSystem();
+      await manager.replaceConfig(nextConfig);
+
+      expect(manager.config).toBe(nextConfig);
+    });
+
+    test("keeps everything running when nothing changed", async () => {
+      const events: string[] = [];
+      const config = { store: tracked("store", events) };
+      const manager = createSystemManager(config);
+
+      const system = await manager.getSystem();
+      events.length = 0;
+
+      await expect(manager.replaceConfig({ ...config })).resolves.toBe(system);
+      expect(events).toEqual([]);
+    });
+
+    test("swaps the config for the next startup when not running", async () => {
+      const events: string[] = [];
+      const manager = createSystemManager({ store: tracked("v1", events) });
+
+      await expect(
+        manager.replaceConfig({ store: tracked("v2", events) })
+      ).resolves.toBe(null);
+      expect(events).toEqual([]);
+
+      const system = await manager.getSystem();
+      expect(system.store.name).toBe("v2");
+    });
+
+    test("waits for a pending startup before diffing", async () => {
+      const events: string[] = [];
+      const config = {
+        store: tracked("store", events),
+        flags: tracked("flags v1", events),
+      };
+      const manager = createSystemManager(config);
+
+      manager.getSystem();
+      const next = await manager.replaceConfig({
+        ...config,
+        flags: tracked("flags v2", events),
+      });
+
+      expect(events).toEqual([
+        "start store",
+        "start flags v1",
+        "halt flags v1",
+        "start flags v2",
+      ]);
+      expect(next!.flags.name).toBe("flags v2");
+    });
+
+    test("halts the unchanged resources when the new config can't start", async () => {
+      const events: string[] = [];
+      const config = {
+        keep: tracked("keep", events),
+        a: tracked("a v1", events),
+      };
+      const manager = createSystemManager<Record<string, any>>(config, {
+        logger: createSilentLogger(),
+      });
+
+      await manager.getSystem();
+      events.length = 0;
+
+      await expect(
+        manager.replaceConfig({
+          keep: config.keep,
+          a: tracked("a v2", events, ["b"]),
+          b: tracked("b", events, ["a"]),
+        })
+      ).rejects.toThrow("Circular dependency");
+
+      expect(events).toEqual(["halt a v1", "halt keep"]);
+      expect(manager.getState().status).toBe("failed");
+      expect(manager.getCurrentSystem()).toBeNull();
+
+      await manager.destroySystem();
+      expect(events).toEqual(["halt a v1", "halt keep"]);
+    });
+  });
+
+  describe("systemPromise", () => {
+    test("starts the system and returns the same thenable while starting", async () => {
+      const manager = createSystemManager(testConfig);
+
+      const promise = manager.systemPromise;
+
+      expect(manager.getState().status).toBe("starting");
+      expect(promise.status).toBe("pending");
+      expect(manager.systemPromise).toBe(promise);
+
+      const system = await promise;
+      expect(system).toBe(manager.getCurrentSystem());
+      expect(promise.status).toBe("fulfilled");
+    });
+
+    test("is fulfilled synchronously once ready, and stable", async () => {
+      const manager = createSystemManager(testConfig);
+      const system = await manager.getSystem();
+
+      const promise = manager.systemPromise;
+
+      expect(promise.status).toBe("fulfilled");
+      expect(promise.status === "fulfilled" && promise.value).toBe(system);
+      expect(manager.systemPromise).toBe(promise);
+    });
+
+    test("is replaced after a lifecycle transition", async () => {
+      const manager = createSystemManager(testConfig);
+      await manager.getSystem();
+      const before = manager.systemPromise;
+
+      await manager.restartSystem();
+
+      expect(manager.systemPromise).not.toBe(before);
+      expect(await manager.systemPromise).toBe(manager.getCurrentSystem());
+    });
+
+    test("rejects with a SystemStartupError for critical failures", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager({
+        counter: counterResource,
+        failing: defineResource({
+          start: (): any => {
+            throw new Error("Intentional failure");
+          },
+          halt: () => {},
+        }),
+      });
+
+      const error = await manager.systemPromise.catch((e) => e);
+
+      expect(error).toBeInstanceOf(SystemStartupError);
+      const promise = manager.systemPromise;
+      expect(promise.status).toBe("rejected");
+      expect(promise.status === "rejected" && promise.reason).toBeInstanceOf(
+        SystemStartupError
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("shutdown results", () => {
+    const failingHaltResource = defineResource({
+      start: () => ({ open: true }),
+      halt: () => {
+        throw new Error("Close failed");
+      },
+    });
+
+    const configWithFailingHalt = {
+      counter: counterResource,
+      socket: failingHaltResource,
+    };
+
+    test("destroySystem resolves with halt durations of every resource", async () => {
+      const manager = createSystemManager(testConfig);
+      await manager.getSystem();
+
+      const result = await manager.destroySystem();
+
+      expect(result.errors.size).toBe(0);
+      expect(Array.from(result.durations.keys())).toEqual(["counter"]);
+      expect(result.durations.get("counter")).toBeGreaterThanOrEqual(0);
+    });
+
+    test("destroySystem resolves with halt errors", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager(configWithFailingHalt);
+      await manager.getSystem();
+
+      const result = await manager.destroySystem();
+
+      expect(result.errors.get("socket")?.message).toBe("Close failed");
+      expect(result.durations.has("socket")).toBe(true);
+      expect(result.durations.has("counter")).toBe(true);
+      expect(manager.getState().status).toBe("halted");
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("getShutdownErrors returns errors from the last halt", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager(configWithFailingHalt);
+
+      expect(manager.getShutdownErrors()).toBe(null);
+
+      await manager.getSystem();
+      await manager.destroySystem();
+
+      expect(manager.getShutdownErrors()?.get("socket")?.message).toBe(
+        "Close failed"
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("rejectOnHaltErrors rejects with a SystemHaltError", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager(configWithFailingHalt, {
+        rejectOnHaltErrors: true,
+      });
+      await manager.getSystem();
+
+      const error = await manager.destroySystem().catch((e) => e);
+
+      expect(isSystemHaltError(error)).toBe(true);
+      expect(error.failedResources).toEqual(["socket"]);
+      // The system is halted regardless
+      expect(manager.getState().status).toBe("halted");
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("rejectOnHaltErrors resolves when the halt is clean", async () => {
+      const manager = createSystemManager(testConfig, {
+        rejectOnHaltErrors: true,
+      });
+      await manager.getSystem();
+
+      const result = await manager.destroySystem();
+
+      expect(result.errors.size).toBe(0);
+    });
+
+    test("halt durations are passed to plugins", async () => {
+      const onHaltComplete = vi.fn();
+      const manager = createSystemManager(testConfig, {
+        plugins: [{ name: "test", onHaltComplete }],
+      });
+      await manager.getSystem();
+      await manager.destroySystem();
+
+      const event = onHaltComplete.mock.calls[0]![0];
+      expect(event.durations.has("counter")).toBe(true);
+    });
+  });
+
+  describe("refcount lifecycle", () => {
+    function sleep(ms: number) {
+      return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+
+    test("halts after the grace period once the last reference is released", async () => {
+      const manager = createSystemManager(testConfig, {
+        lifecycle: "refcount",
+        gracePeriodMs: 20,
+      });
+
+      const releaseA = manager.acquire();
+      const releaseB = manager.acquire();
+      await manager.getSystem();
+      expect(manager.getRefCount()).toBe(2);
+
+      releaseA();
+      await sleep(40);
+      expect(manager.getState().status).toBe("ready");
+
+      releaseB();
+      expect(manager.getState().status).toBe("ready");
+
+      await vi.waitFor(() => expect(manager.getState().status).toBe("halted"));
+      expect(manager.getRefCount()).toBe(0);
+    });
+
+    test("acquiring during the grace period keeps the running instance", async () => {
+      const manager = createSystemManager(testConfig, {
+        lifecycle: "refcount",
+        gracePeriodMs: 20,
+      });
+
+      const release = manager.acquire();
+      const system = await manager.getSystem();
+      release();
+
+      const again = manager.acquire();
+      await sleep(40);
+
+      expect(manager.getState().status).toBe("ready");
+      expect(await manager.getSystem()).toBe(system);
+      again();
+    });
+
+    test("release is idempotent", async () => {
+      const manager = createSystemManager(testConfig, {
+        lifecycle: "refcount",
+      });
+
+      const release = manager.acquire();
+      manager.acquire();
+      release();
+      release();
+
+      expect(manager.getRefCount()).toBe(1);
+    });
+
+    test("halts a system that nobody acquired after it started", async () => {
+      const manager = createSystemManager(testConfig, {
+        lifecycle: "refcount",
+        gracePeriodMs: 20,
+      });
+
+      await manager.getSystem();
+
+      await vi.waitFor(() => expect(manager.getState().status).toBe("halted"));
+    });
+
+    test("manual lifecycle never halts on release", async () => {
+      const manager = createSystemManager(testConfig, { gracePeriodMs: 0 });
+
+      const release = manager.acquire();
+      await manager.getSystem();
+      release();
+      await sleep(20);
+
+      expect(manager.getState().status).toBe("ready");
+    });
+
+    test("destroySystem cancels a pending idle halt", async () => {
+      const manager = createSystemManager(testConfig, {
+        lifecycle: "refcount",
+        gracePeriodMs: 20,
+      });
+      const statuses: string[] = [];
+
+      manager.acquire()();
+      await manager.getSystem();
+      await manager.destroySystem();
+
+      manager.subscribe((state) => {
+        statuses.push(state.status);
+      });
+      await sleep(40);
+
+      expect(statuses).toEqual([]);
+    });
+  });
+
   test("multiple managers can coexist independently", async () => {
     const manager1 = createSystemManager(testConfig);
     const manager2 = createSystemManager(testConfig);
@@ -0,0 +1,171 @@
+/**
+ * Tests for startup/halt metrics and span export
+ */
+
+import { describe, expect, test, vi } from "vitest";
+import { defineResource } from "braided";
+import { createSystemManager } from "../manager";
+import { createInMemorySpanExporter } from "../metrics";
+
+describe("metrics", () => {
+  function sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  const config = {
+    db: defineResource({
+      start: async () => {
+        await sleep(20);
+        return { query: () => "rows" };
+      },
+      halt: async () => {
+        await sleep(10);
+      },
+    }),
+    api: defineResource({
+      dependencies: ["db"],
+      start: () => ({ get: () => "data" }),
+      halt: () => {},
+    }),
+    logger: defineResource({
+      start: () => ({ log: () => {} }),
+      halt: () => {},
+    }),
+  };
+
+  test("getMetrics is empty before anything ran", () => {
+    const manager = createSystemManager(config);
+
+    expect(manager.getMetrics()).toEqual({ startup: null, shutdown: null });
+  });
+
+  test("records per-resource start durations and the critical path", async () => {
+    const manager = createSystemManager(config);
+    await manager.getSystem();
+
+    const { startup } = manager.getMetrics();
+
+    expect(startup?.scope).toBe("system");
+    expect(Array.from(startup!.durations.keys()).sort()).toEqual([
+      "api",
+      "db",
+      "logger",
+    ]);
+    expect(startup!.durations.get("db")).toBeGreaterThanOrEqual(15);
+    expect(startup!.criticalPath).toEqual(["db", "api"]);
+    expect(startup!.criticalPathMs).toBeLessThanOrEqual(startup!.wallTimeMs);
+    expect(startup!.errors.size).toBe(0);
+  });
+
+  test("records per-resource halt durations", async () => {
+    const manager = createSystemManager(config);
+    await manager.getSystem();
+    await manager.destroySystem();
+
+    const { shutdown } = manager.getMetrics();
+
+    expect(shutdown?.scope).toBe("system");
+    expect(shutdown!.durations.get("db")).toBeGreaterThanOrEqual(5);
+    expect(shutdown!.wallTimeMs).toBeGreaterThanOrEqual(
+      shutdown!.durations.get("db")!
+    );
+  });
+
+  test("times failed resources too", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const manager = createSystemManager({
+      ...config,
+      api: defineResource({
+        dependencies: ["db"],
+        start: (): any => {
+          throw new Error("Bad gateway");
+        },
+        halt: () => {},
+      }),
+    });
+
+    await manager.getSystem();
+
+    const { startup } = manager.getMetrics();
+    expect(startup!.durations.has("api")).toBe(true);
+    expect(startup!.errors.get("api")?.message).toBe("Bad gateway");
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  describe("span export", () => {
+    test("exports a startup trace with a span per resource", async () => {
+      const exporter = createInMemorySpanExporter();
+      const manager = createSystemManager(config, { spanExporter: exporter });
+      await manager.getSystem();
+
+      const spans = exporter.getFinishedSpans();
+      const [root, ...children] = spans;
+
+      expect(root.name).toBe("braided.startup");
+      expect(root.parentSpanId).toBe(null);
+      expect(root.status).toEqual({ code: "OK" });
+      expect(root.attributes["braided.critical_path"]).toEqual(["db", "api"]);
+      expect(root.endTime).toBeGreaterThanOrEqual(root.startTime);
+
+      const ids = children.map((span) => span.attributes["braided.resource.id"]);
+      expect(ids.sort()).toEqual(["api", "db", "logger"]);
+      for (const child of children) {
+        expect(child.name).toBe("braided.resource.start");
+        expect(child.traceId).toBe(root.traceId);
+        expect(child.parentSpanId).toBe(root.spanId);
+        expect(child.traceId).toMatch(/^[0-9a-f]{32}$/);
+        expect(child.spanId).toMatch(/^[0-9a-f]{16}$/);
+      }
+    });
+
+    test("exports a shutdown trace", async () => {
+      const exporter = createInMemorySpanExporter();
+      const manager = createSystemManager(config, { spanExporter: exporter });
+      await manager.getSystem();
+      exporter.reset();
+
+      await manager.destroySystem();
+
+      const [root, ...children] = exporter.getFinishedSpans();
+      expect(root.name).toBe("braided.shutdown");
+      expect(children).toHaveLength(3);
+      expect(children.every((span) => span.name === "braided.resource.halt"))
+        .toBe(true);
+    });
+
+    test("marks failed resources and startups as errors", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const exporter = createInMemorySpanExporter();
+      const manager = createSystemManager(
+        {
+          db: defineResource({
+            start: (): any => {
+              throw new Error("Connection refused");
+            },
+            halt: () => {},
+          }),
+        },
+        { spanExporter: exporter }
+      );
+
+      await manager.getSystem();
+
+      const [root, child] = exporter.getFinishedSpans();
+      expect(root.status).toEqual({
+        code: "ERROR",
+        message: "db: Connection refused",
+      });
+      expect(child.status).toEqual({
+        code: "ERROR",
+        message: "Connection refused",
+      });
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Tests for manager plugins
+ */
+
+import { describe, expect, test, vi } from "vitest";
+import { defineResource } from "braided";
+import { createSystemManager } from "../manager";
+import { createLoggingPlugin } from "../plugins";
+import type { SystemPlugin } from "../plugins";
+
+describe("plugins", () => {
+  function createConfig(events: string[] = []) {
+    const db = defineResource({
+      start: () => {
+        events.push("start db");
+        return { query: () => "rows" };
+      },
+      halt: () => {
+        events.push("halt db");
+      },
+    });
+
+    const api = defineResource({
+      dependencies: ["db"],
+      start: ({ db }: { db: { query: () => string } }) => {
+        events.push("start api");
+        return { fetch: () => db.query() };
+      },
+      halt: () => {
+        events.push("halt api");
+      },
+    });
+
+    return { db, api };
+  }
+
+  /**
+   * Plugin recording every hook call into `events`.
+   */
+  function recorder(events: string[]): SystemPlugin {
+    return {
+      name: "recorder",
+      onBeforeStart: ({ scope, resourceIds }) => {
+        events.push(`beforeStart ${scope} ${resourceIds.join(",")}`);
+      },
+      onResourceStarted: ({ resourceId }) => {
+        events.push(`resourceStarted ${resourceId}`);
+      },
+      onStartRetry: ({ attempt }) => {
+        events.push(`retry ${attempt}`);
+      },
+      onStartComplete: ({ scope, errors }) => {
+        events.push(`startComplete ${scope} ${errors.size}`);
+      },
+      onStartError: ({ scope, error }) => {
+        events.push(`startError ${scope} ${error.message}`);
+      },
+      onBeforeHalt: ({ scope, resourceIds }) => {
+        events.push(`beforeHalt ${scope} ${resourceIds.join(",")}`);
+      },
+      onHaltComplete: ({ scope, errors }) => {
+        events.push(`haltComplete ${scope} ${errors.size}`);
+      },
+    };
+  }
+
+  test("calls hooks around startup and halt", async () => {
+    const events: string[] = [];
+    const manager = createSystemManager(createConfig(events), {
+      plugins: [recorder(events)],
+    });
+
+    await manager.getSystem();
+    await manager.destroySystem();
+
+    expect(events).toEqual([
+      "beforeStart system db,api",
+      "start db",
+      "resourceStarted db",
+      "start api",
+      "resourceStarted api",
+      "startComplete system 0",
+      "beforeHalt system db,api",
+      "halt api",
+      "halt db",
+      "haltComplete system 0",
+    ]);
+  });
+
+  test("reports timings", async () => {
+    const onResourceStarted = vi.fn();
+    const onStartComplete = vi.fn();
+    const manager = createSystemManager(createConfig(), {
+      plugins: [{ name: "timings", onResourceStarted, onStartComplete }],
+    });
+
+    const system = await manager.getSystem();
+
+    expect(onResourceStarted).toHaveBeenCalledWith({
+      resourceId: "db",
+      instance: system.db,
+      durationMs: expect.any(Number),
+    });
+    expect(onStartComplete.mock.calls[0][0].durationMs).toBeGreaterThanOrEqual(
+      0
+    );
+  });
+
+  test("restartResource reports the restarted subset", async () => {
+    const events: string[] = [];
+    const manager = createSystemManager(createConfig(), {
+      plugins: [recorder(events)],
+    });
+
+    await manager.getSystem();
+    events.length = 0;
+
+    await manager.restartResource("api");
+
+    expect(events).toEqual([
+      "beforeHalt resources api",
+      "haltComplete resources 0",
+      "beforeStart resources api",
+      "resourceStarted api",
+      "startComplete resources 0",
+    ]);
+  });
+
+  test("reports retries and the cleanup of failed attempts", async () => {
+    const events: string[] = [];
+    let attempts = 0;
+    const manager = createSystemManager(
+      {
+        ok: defineResource({ start: () => ({}), halt: () => {} }),
+        flakey: defineResource({
+          start: () => {
+            if (++attempts < 2) {
+              throw new Error("Network timeout");
+            }
+            return {};
+          },
+          halt: () => {},
+        }),
+      },
+      {
+        retry: { initialDelayMs: 1, jitter: false },
+        plugins: [recorder(events)],
+      }
+    );
+
+    await manager.getSystem();
+
+    expect(events).toEqual([
+      "beforeStart system ok,flakey",
+      "resourceStarted ok",
+      "retry 1",
+      "beforeHalt startup ok",
+      "haltComplete startup 0",
+      "resourceStarted ok",
+      "resourceStarted flakey",
+      "startComplete system 0",
+    ]);
+  });
+
+  test("onStartError fires when startup throws", async () => {
+    const events: string[] = [];
+    const manager = createSystemManager(
+      {
+        a: defineResource({
+          dependencies: ["b"],
+          start: () => ({}),
+          halt: () => {},
+        }),
+        b: defineResource({
+          dependencies: ["a"],
+          start: () => ({}),
+          halt: () => {},
+        }),
+      },
+      { plugins: [recorder(events)] }
+    );
+
+    await expect(manager.getSystem()).rejects.toThrow("Circular dependency");
+
+    expect(events[1]).toMatch(/^startError system Circular dependency/);
+  });
+
+  test("wrapSystem wraps the exposed system but halts the original", async () => {
+    const halted: unknown[] = [];
+    const db = defineResource({
+      start: () => ({ name: "db" }),
+      halt: (instance) => {
+        halted.push(instance);
+      },
+    });
+    const manager = createSystemManager(
+      { db },
+      {
+        plugins: [
+          {
+            name: "tagger",
+            wrapSystem: (system) => ({
+              ...system,
+              db: { ...system.db, tagged: true },
+            }),
+          },
+        ],
+      }
+    );
+
+    const system = await manager.getSystem();
+
+    expect(system.db).toEqual({ name: "db", tagged: true });
+    expect(manager.getCurrentSystem()).toBe(system);
+
+    await manager.destroySystem();
+
+    expect(halted).toEqual([{ name: "db" }]);
+  });
+
+  test("wrapSystem applies after restartResource", async () => {
+    const manager = createSystemManager(createConfig(), {
+      plugins: [
+        {
+          name: "freeze",
+          wrapSystem: (system) => Object.freeze({ ...system }),
+        },
+      ],
+    });
+
+    await manager.getSystem();
+    const system = await manager.restartResource("api");
+
+    expect(Object.isFrozen(system)).toBe(true);
+    expect(system.api.fetch()).toBe("rows");
+  });
+
+  test("a throwing plugin does not break the lifecycle", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const events: string[] = [];
+    const manager = createSystemManager(createConfig(), {
+      plugins: [
+        {
+          name: "broken",
+          onStartComplete: () => {
+            throw new Error("plugin bug");
+          },
+        },
+        recorder(events),
+      ],
+    });
+
+    await manager.getSystem();
+
+    expect(manager.getState().status).toBe("ready");
+    expect(events).toContain("startComplete system 0");
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      '[braided-react] Plugin "broken" failed in onStartComplete:',
+      expect.any(Error)
+    );
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  test("a throwing wrapSystem exposes the system without its wrapper", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const events: string[] = [];
+    const manager = createSystemManager(createConfig(events), {
+      plugins: [
+        {
+          name: "broken",
+          wrapSystem: () => {
+            throw new Error("plugin bug");
+          },
+        },
+        {
+          name: "freeze",
+          wrapSystem: (system) => Object.freeze({ ...system }),
+        },
+      ],
+    });
+
+    const system = await manager.getSystem();
+
+    expect(manager.getState().status).toBe("ready");
+    expect(Object.isFrozen(system)).toBe(true);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      '[braided-react] Plugin "broken" failed in wrapSystem:',
+      expect.any(Error)
+    );
+
+    await manager.restartResource("api");
+    expect(manager.getState().status).toBe("ready");
+
+    await manager.destroySystem();
+    expect(manager.getState().status).toBe("halted");
+    expect(events).toContain("halt db");
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  describe("default logging", () => {
+    const failingConfig = {
+      failing: defineResource({
+        start: (): any => {
+          throw new Error("Startup failed");
+        },
+        halt: () => {},
+      }),
+      ok: defineResource({ start: () => ({}), halt: () => {} }),
+    };
+
+    test("logs startup errors by default", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager(failingConfig);
+
+      await manager.getSystem();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "[braided-react] System startup completed with 1 error(s):",
+        expect.any(Map)
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("is replaced when plugins are passed", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const manager = createSystemManager(failingConfig, { plugins: [] });
+
+      await manager.getSystem();
+
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("logs shutdown errors", () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const errors = new Map([["db", new Error("Close failed")]]);
+
+      createLoggingPlugin().onHaltComplete!({
+        scope: "system",
+        errors,
+        durations: new Map([["db", 1]]),
+        resourceIds: ["db"],
+        durationMs: 1,
+      });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "[braided-react] System shutdown completed with 1 error(s):",
+        errors
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Tests for per-resource startup progress
+ */
+
+import { describe, expect, test, vi } from "vitest";
+import { defineResource } from "braided";
+import { createSystemManager } from "../manager";
+import { createSilentLogger } from "../logger";
+import type { StartupProgress } from "../progress";
+
+describe("startup progress", () => {
+  function slowResource(name: string, ms: number, dependencies?: string[]) {
+    return defineResource({
+      dependencies,
+      start: () =>
+        new Promise<string>((resolve) => {
+          setTimeout(() => resolve(name), ms);
+        }),
+      halt: () => {},
+    });
+  }
+
+  function summarize(progress: StartupProgress) {
+    return progress.resources.map(({ id, status }) => `${id}:${status}`);
+  }
+
+  test("lists every resource as pending before startup, in dependency order", () => {
+    const manager = createSystemManager({
+      api: slowResource("api", 1, ["db"]),
+      db: slowResource("db", 1),
+    });
+
+    expect(manager.getStartupProgress()).toEqual({
+      total: 2,
+      started: 0,
+      current: null,
+      resources: [
+        {
+          id: "db",
+          status: "pending",
+          startedAt: null,
+          durationMs: null,
+          error: null,
+        },
+        {
+          id: "api",
+          status: "pending",
+          startedAt: null,
+          durationMs: null,
+          error: null,
+        },
+      ],
+    });
+  });
+
+  test("reports each resource as it starts", async () => {
+    const manager = createSystemManager({
+      db: slowResource("db", 5),
+      api: slowResource("api", 5, ["db"]),
+    });
+    const snapshots: string[][] = [];
+    const currents: Array<string | null> = [];
+
+    manager.subscribeProgress((progress) => {
+      snapshots.push(summarize(progress));
+      currents.push(progress.current);
+    });
+
+    await manager.getSystem();
+
+    expect(snapshots).toEqual([
+      ["db:pending", "api:pending"],
+      ["db:starting", "api:pending"],
+      ["db:started", "api:pending"],
+      ["db:started", "api:starting"],
+      ["db:started", "api:started"],
+    ]);
+    expect(currents).toEqual([null, "db", null, "api", null]);
+
+    const progress = manager.getStartupProgress();
+    expect(progress.started).toBe(2);
+    expect(progress.total).toBe(2);
+    expect(progress.resources[0].durationMs).toBeGreaterThan(0);
+    expect(progress.resources[0].startedAt).toEqual(expect.any(Number));
+  });
+
+  test("marks failed and skipped resources", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const manager = createSystemManager({
+      db: defineResource({
+        start: async (): Promise<string> => {
+          throw new Error("Connection refused");
+        },
+        halt: () => {},
+      }),
+      api: slowResource("api", 1, ["db"]),
+      cache: slowResource("cache", 1),
+    });
+
+    await manager.getSystem();
+
+    const progress = manager.getStartupProgress();
+    expect(summarize(progress)).toEqual([
+      "db:failed",
+      "cache:started",
+      "api:failed",
+    ]);
+    expect(progress.started).toBe(1);
+    expect(progress.resources[0].error?.message).toBe("Connection refused");
+    expect(progress.resources[2].error?.message).toContain(
+      "Missing required dependencies"
+    );
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  test("starts over on each retry attempt", async () => {
+    const consoleWarnSpy = vi
+      .spyOn(console, "warn")
+      .mockImplementation(() => {});
+    let attempts = 0;
+    const manager = createSystemManager(
+      {
+        flakey: defineResource({
+          start: async () => {
+            if (++attempts < 2) {
+              throw new Error("Network timeout");
+            }
+            return "ok";
+          },
+          halt: () => {},
+        }),
+      },
+      { retry: { initialDelayMs: 1, jitter: false } }
+    );
+    const snapshots: string[][] = [];
+
+    manager.subscribeProgress((progress) => {
+      snapshots.push(summarize(progress));
+    });
+
+    await manager.getSystem();
+
+    expect(snapshots).toEqual([
+      ["flakey:pending"],
+      ["flakey:starting"],
+      ["flakey:failed"],
+      ["flakey:pending"],
+      ["flakey:starting"],
+      ["flakey:started"],
+    ]);
+
+    consoleWarnSpy.mockRestore();
+  });
+
+  test("restartResource tracks only the restarted resources", async () => {
+    const manager = createSystemManager({
+      db: slowResource("db", 1),
+      api: slowResource("api", 1, ["db"]),
+      cache: slowResource("cache", 1),
+    });
+
+    await manager.getSystem();
+    await manager.restartResource("api");
+
+    expect(summarize(manager.getStartupProgress())).toEqual(["api:started"]);
+  });
+
+  test("unsubscribe stops updates", async () => {
+    const manager = createSystemManager({ db: slowResource("db", 1) });
+    const listener = vi.fn();
+
+    const unsubscribe = manager.subscribeProgress(listener);
+    unsubscribe();
+    await manager.getSystem();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  describe("abandoned startups", () => {
+    test("a retry sleeping past a timeout doesn't overwrite the next startup", async () => {
+      let attempts = 0;
+      const manager = createSystemManager(
+        {
+          db: defineResource({
+            start: () => {
+              attempts++;
+              if (attempts === 1) {
+                throw new Error("Network timeout");
+              }
+              return { attempt: attempts };
+            },
+            halt: () => {},
+          }),
+        },
+        {
+          startTimeoutMs: 20,
+          retry: { initialDelayMs: 80, jitter: false },
+          logger: createSilentLogger(),
+        }
+      );
+
+      await expect(manager.getSystem()).rejects.toThrow("timed out");
+      await manager.retry();
+
+      // Let the abandoned retry loop wake up
+      await new Promise((resolve) => setTimeout(resolve, 120));
+
+      expect(manager.getState().status).toBe("ready");
+      expect(manager.getStartupProgress().started).toBe(1);
+      expect(summarize(manager.getStartupProgress())).toEqual(["db:started"]);
+    });
+
+    test("an aborted in-flight start doesn't overwrite the next startup", async () => {
+      let finishFirst!: () => void;
+      let attempts = 0;
+      const manager = createSystemManager(
+        {
+          db: defineResource({
+            start: () => {
+              attempts++;
+              if (attempts > 1) {
+                return { attempt: attempts };
+              }
+              return new Promise<{ attempt: number }>((resolve) => {
+                finishFirst = () => resolve({ attempt: 1 });
+              });
+            },
+            halt: () => {},
+          }),
+        },
+        { logger: createSilentLogger() }
+      );
+
+      const controller = new AbortController();
+      const first = manager.getSystem({ signal: controller.signal });
+      await vi.waitFor(() => expect(attempts).toBe(1));
+      controller.abort(new Error("cancelled"));
+      await expect(first).rejects.toThrow("cancelled");
+
+      const system = await manager.getSystem();
+      expect(system.db.attempt).toBe(2);
+
+      finishFirst();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(manager.getState().status).toBe("ready");
+      expect(manager.getStartupProgress().started).toBe(1);
+      expect(summarize(manager.getStartupProgress())).toEqual(["db:started"]);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for the startup retry policy
+ */
+
+import { describe, expect, test, vi } from "vitest";
+import {
+  getRetryDelay,
+  resolveRetryPolicy,
+  shouldRetryStartup,
+} from "../retry";
+
+describe("retry policy", () => {
+  test("applies defaults", () => {
+    const policy = resolveRetryPolicy({});
+
+    expect(policy.maxAttempts).toBe(3);
+    expect(policy.initialDelayMs).toBe(200);
+    expect(policy.maxDelayMs).toBe(5000);
+    expect(policy.factor).toBe(2);
+    expect(policy.jitter).toBe(true);
+    expect(policy.shouldRetry(new Error("any"), "any")).toBe(true);
+  });
+
+  test("grows the delay exponentially up to maxDelayMs", () => {
+    const policy = resolveRetryPolicy({
+      initialDelayMs: 100,
+      maxDelayMs: 500,
+      jitter: false,
+    });
+
+    expect(getRetryDelay(policy, 1)).toBe(100);
+    expect(getRetryDelay(policy, 2)).toBe(200);
+    expect(getRetryDelay(policy, 3)).toBe(400);
+    expect(getRetryDelay(policy, 4)).toBe(500);
+  });
+
+  test("jitter keeps the delay between 50% and 100%", () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 100 });
+    const random = vi.spyOn(Math, "random");
+
+    random.mockReturnValue(0);
+    expect(getRetryDelay(policy, 1)).toBe(50);
+
+    random.mockReturnValue(0.999999);
+    expect(getRetryDelay(policy, 1)).toBeCloseTo(100);
+
+    random.mockRestore();
+  });
+
+  test("stops retrying after maxAttempts", () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 2 });
+    const errors = new Map([["db", new Error("down")]]);
+
+    expect(shouldRetryStartup(policy, 1, errors)).toBe(true);
+    expect(shouldRetryStartup(policy, 2, errors)).toBe(false);
+  });
+
+  test("retries only when every error is retryable", () => {
+    const policy = resolveRetryPolicy({
+      shouldRetry: (_error, resourceId) => resourceId === "socket",
+    });
+
+    expect(
+      shouldRetryStartup(policy, 1, new Map([["socket", new Error("x")]]))
+    ).toBe(true);
+    expect(
+      shouldRetryStartup(
+        policy,
+        1,
+        new Map([
+          ["socket", new Error("x")],
+          ["config", new Error("y")],
+        ])
+      )
+    ).toBe(false);
+  });
+
+  test("ignores dependents skipped because of a failure", () => {
+    const policy = resolveRetryPolicy({
+      shouldRetry: (_error, resourceId) => resourceId === "socket",
+    });
+
+    expect(
+      shouldRetryStartup(
+        policy,
+        1,
+        new Map([
+          ["socket", new Error("x")],
+          ["chat", new Error("Missing required dependencies: socket")],
+        ])
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for store resources
+ */
+
+import { describe, expect, test, vi } from "vitest";
+import { startSystem, haltSystem } from "braided";
+import { defineStoreResource, isStateStore } from "../stores";
+
+function createStore() {
+  let state = { count: 0 };
+  const listeners = new Set<() => void>();
+  return {
+    getState: () => state,
+    setState: (next: { count: number }) => {
+      state = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+describe("isStateStore", () => {
+  test("recognises objects and functions with subscribe and getState", () => {
+    expect(isStateStore(createStore())).toBe(true);
+    // Zustand's create() returns a hook carrying the store API
+    expect(isStateStore(Object.assign(() => {}, createStore()))).toBe(true);
+  });
+
+  test("rejects other values", () => {
+    expect(isStateStore(null)).toBe(false);
+    expect(isStateStore({ subscribe: () => () => {} })).toBe(false);
+    expect(isStateStore({ subscribe: () => () => {}, getState: 1 })).toBe(
+      false
+    );
+  });
+});
+
+describe("defineStoreResource", () => {
+  test("starts the store", async () => {
+    const { system, errors } = await startSystem({
+      store: defineStoreResource({ start: createStore }),
+    });
+
+    expect(errors.size).toBe(0);
+    expect(system.store.getState()).toEqual({ count: 0 });
+  });
+
+  test("accepts async start and dependencies", async () => {
+    const { system, errors } = await startSystem({
+      initial: { start: () => 5, halt: () => {} },
+      store: defineStoreResource({
+        dependencies: ["initial"],
+        start: async ({ initial }: { initial: number }) => {
+          const store = createStore();
+          store.setState({ count: initial });
+          return store;
+        },
+      }),
+    });
+
+    expect(errors.size).toBe(0);
+    expect(system.store.getState()).toEqual({ count: 5 });
+  });
+
+  test("fails startup when start() returns something else", async () => {
+    const { errors } = await startSystem({
+      store: defineStoreResource({
+        // @ts-expect-error - not a store
+        start: () => ({ state: 0 }),
+      }),
+    });
+
+    expect(errors.get("store")?.message).toContain(
+      "start() must return a store with subscribe() and getState()"
+    );
+  });
+
+  test("destroys the store on halt by default", async () => {
+    const destroy = vi.fn();
+    const config = {
+      store: defineStoreResource({
+        start: () => ({ ...createStore(), destroy }),
+      }),
+    };
+
+    const { system } = await startSystem(config);
+    await haltSystem(config, system);
+
+    expect(destroy).toHaveBeenCalledTimes(1);
+  });
+
+  test("uses a custom halt when given", async () => {
+    const halt = vi.fn();
+    const config = {
+      store: defineStoreResource({ start: createStore, halt }),
+    };
+
+    const { system } = await startSystem(config);
+    await haltSystem(config, system);
+
+    expect(halt).toHaveBeenCalledWith(system.store);
+  });
+});
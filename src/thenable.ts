@@ -0,0 +1,95 @@
+/**
+ * Thenable - Status-tagged promises for Suspense
+ *
+ * React tracks thenables by identity and reads `status` / `value` / `reason`
+ * synchronously once they settle. Tagging the manager's promise this way
+ * lets React 19 use() (and React 18 Suspense) resume without re-suspending.
+ */
+
+/**
+ * A promise tagged with its settled state, as understood by React use().
+ */
+export type SystemThenable<T> = Promise<T> &
+  (
+    | { status: "pending" }
+    | { status: "fulfilled"; value: T }
+    | { status: "rejected"; reason: unknown }
+  );
+
+/**
+ * Tag a promise with its state once it settles.
+ *
+ * @param promise - The promise to track
+ * @returns The same promise, tagged
+ */
+export function trackThenable<T>(promise: Promise<T>): SystemThenable<T> {
+  const thenable = promise as SystemThenable<T>;
+  thenable.status = "pending";
+
+  promise.then(
+    (value) => {
+      Object.assign(thenable, { status: "fulfilled", value });
+    },
+    (reason: unknown) => {
+      Object.assign(thenable, { status: "rejected", reason });
+    }
+  );
+
+  return thenable;
+}
+
+/**
+ * Create an already fulfilled thenable.
+ *
+ * @param value - The value
+ * @returns Thenable readable synchronously
+ */
+export function fulfilledThenable<T>(value: T): SystemThenable<T> {
+  return Object.assign(Promise.resolve(value), {
+    status: "fulfilled" as const,
+    value,
+  });
+}
+
+/**
+ * Create an already rejected thenable.
+ *
+ * @param reason - The rejection reason
+ * @returns Thenable readable synchronously
+ */
+export function rejectedThenable<T>(reason: unknown): SystemThenable<T> {
+  const promise = Promise.reject(reason);
+  // Consumers read `reason` synchronously - don't report it as unhandled
+  promise.catch(() => {});
+  return Object.assign(promise as Promise<T>, {
+    status: "rejected" as const,
+    reason,
+  });
+}
+
+/**
+ * Read a thenable synchronously, or suspend.
+ *
+ * Uses React 19 use() when available, otherwise throws the thenable
+ * (React 18 Suspense).
+ *
+ * @param thenable - A tracked thenable
+ * @param use - React's use(), if the running React has it
+ * @returns The fulfilled value
+ * @throws The rejection reason, or the thenable while pending
+ */
+export function readThenable<T>(
+  thenable: SystemThenable<T>,
+  use?: <V>(usable: PromiseLike<V>) => V
+): T {
+  if (thenable.status === "fulfilled") {
+    return thenable.value;
+  }
+  if (thenable.status === "rejected") {
+    throw thenable.reason;
+  }
+  if (use) {
+    return use(thenable);
+  }
+  throw thenable;
+}